@@ -0,0 +1,48 @@
+import React from "react";
+import { encodeBarcode, type BarcodeSymbology } from "../utils/barcode";
+
+interface BarcodeSvgProps {
+  value: string;
+  symbology: BarcodeSymbology;
+  className?: string;
+}
+
+// Scanners need a blank margin either side of the bars
+const QUIET_ZONE_MODULES = 10;
+
+const BarcodeSvg: React.FC<BarcodeSvgProps> = ({ value, symbology, className }) => {
+  const modules = encodeBarcode(value, symbology);
+
+  // Merge neighbouring bar modules into single rects
+  const bars: { x: number; width: number }[] = [];
+  [...modules].forEach((module, index) => {
+    if (module !== "1") return;
+    const last = bars[bars.length - 1];
+    if (last && last.x + last.width === index) last.width += 1;
+    else bars.push({ x: index, width: 1 });
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${modules.length + QUIET_ZONE_MODULES * 2} 50`}
+      preserveAspectRatio="none"
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`${symbology === "ean13" ? "EAN-13" : "Code 128"} barcode ${value}`}
+      className={className}
+    >
+      {bars.map((bar) => (
+        <rect
+          key={bar.x}
+          x={bar.x + QUIET_ZONE_MODULES}
+          y={0}
+          width={bar.width}
+          height={50}
+          fill="#000"
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default BarcodeSvg;
@@ -0,0 +1,251 @@
+import React, { useState } from "react";
+import { AxiosError } from "axios";
+import { itemService } from "../services/itemService";
+import type { Item } from "../types/item.types";
+import {
+  adjustPrice,
+  priceAdjustedPayload,
+  priceAdjustmentError,
+  type PriceAdjustment,
+} from "../utils/bulkPricing";
+import { formatQuantity } from "../utils/units";
+
+export type BulkItemAction = "archive" | "restore" | "price";
+
+type ResultStatus = "saved" | "failed";
+
+interface ItemResult {
+  status: ResultStatus;
+  message?: string;
+}
+
+interface BulkItemActionDialogProps {
+  action: BulkItemAction;
+  items: Item[];
+  onClose: () => void;
+  onDone: () => void;
+}
+
+const ACTION_TITLES: Record<BulkItemAction, string> = {
+  archive: "Archive Items",
+  restore: "Restore Items",
+  price: "Adjust Prices",
+};
+
+const ACTION_VERBS: Record<BulkItemAction, string> = {
+  archive: "Archive",
+  restore: "Restore",
+  price: "Update",
+};
+
+const BulkItemActionDialog: React.FC<BulkItemActionDialogProps> = ({
+  action,
+  items,
+  onClose,
+  onDone,
+}) => {
+  const [mode, setMode] = useState<PriceAdjustment["mode"]>("percent");
+  const [value, setValue] = useState("");
+  const [results, setResults] = useState<Record<string, ItemResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+
+  const adjustment: PriceAdjustment = { mode, value: Number(value) || 0 };
+  const skipReason = (item: Item): string | undefined =>
+    action === "price" ? priceAdjustmentError(item, adjustment) : undefined;
+  const targets = items.filter((item) => item._id && !skipReason(item));
+  const canApply =
+    targets.length > 0 && (action !== "price" || adjustment.value !== 0);
+
+  const handleApply = async () => {
+    setIsRunning(true);
+
+    // Saved one at a time so a single failure does not abort the batch
+    for (const item of targets) {
+      const id = item._id as string;
+      let result: ItemResult = { status: "saved" };
+      try {
+        if (action === "archive") await itemService.archiveItem(id);
+        else if (action === "restore") await itemService.restoreItem(id);
+        else await itemService.updateItem(id, priceAdjustedPayload(item, adjustment));
+      } catch (err: unknown) {
+        let message = "Failed to update item.";
+        if (err instanceof AxiosError) {
+          message =
+            err.response?.data?.error || err.response?.data?.message || message;
+        }
+        result = { status: "failed", message };
+      }
+      setResults((prev) => ({ ...prev, [id]: result }));
+    }
+
+    setIsRunning(false);
+    setIsFinished(true);
+  };
+
+  const handleClose = () => {
+    if (isFinished) onDone();
+    else onClose();
+  };
+
+  const savedCount = Object.values(results).filter((r) => r.status === "saved").length;
+  const failedCount = Object.values(results).filter((r) => r.status === "failed").length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="fixed inset-0 bg-gray-900/50"
+        onClick={isRunning ? undefined : handleClose}
+      ></div>
+      <div className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-white border-2 border-amber-200 rounded-2xl shadow-2xl overflow-hidden">
+        <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">{ACTION_TITLES[action]}</h2>
+            <p className="text-sm text-gray-600">
+              {items.length} {items.length === 1 ? "item" : "items"} selected
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={isRunning}
+            className="text-gray-500 hover:text-gray-800 text-2xl leading-none disabled:opacity-40"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {action === "price" && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Adjust By
+                </label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as PriceAdjustment["mode"])}
+                  disabled={isRunning || isFinished}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                >
+                  <option value="percent">Percentage (%)</option>
+                  <option value="amount">Fixed amount (₹)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {mode === "percent" ? "Change (%)" : "Change (₹)"}
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  disabled={isRunning || isFinished}
+                  placeholder={mode === "percent" ? "e.g. 5 or -10" : "e.g. 20 or -15"}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Use a negative value to lower prices. Variant prices change too.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3 text-sm">
+            <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-800 font-semibold">
+              {targets.length} to {ACTION_VERBS[action].toLowerCase()}
+            </span>
+            {items.length > targets.length && (
+              <span className="px-3 py-1 rounded-full bg-red-100 text-red-800 font-semibold">
+                {items.length - targets.length} skipped
+              </span>
+            )}
+            {isFinished && (
+              <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-800 font-semibold">
+                {savedCount} saved, {failedCount} failed
+              </span>
+            )}
+          </div>
+
+          <div className="overflow-x-auto border-2 border-amber-100 rounded-xl">
+            <table className="min-w-full divide-y divide-amber-100 text-sm">
+              <thead className="bg-amber-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-bold text-gray-700">Name</th>
+                  <th className="px-3 py-2 text-left font-bold text-gray-700">SKU</th>
+                  <th className="px-3 py-2 text-right font-bold text-gray-700">
+                    {action === "price" ? "Price" : "Quantity"}
+                  </th>
+                  <th className="px-3 py-2 text-left font-bold text-gray-700">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100">
+                {items.map((item) => {
+                  const skipped = skipReason(item);
+                  const result = item._id ? results[item._id] : undefined;
+                  return (
+                    <tr
+                      key={item._id ?? item.name}
+                      className={
+                        skipped || result?.status === "failed" ? "bg-red-50" : undefined
+                      }
+                    >
+                      <td className="px-3 py-2 text-gray-800 font-medium">{item.name}</td>
+                      <td className="px-3 py-2 text-gray-600">{item.sku ?? "-"}</td>
+                      <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                        {action === "price"
+                          ? `₹ ${item.price.toFixed(2)} → ₹ ${adjustPrice(item.price, adjustment).toFixed(2)}`
+                          : formatQuantity(item.quantity, item.unit)}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {result?.status === "saved" ? (
+                          <span className="text-green-700 font-semibold">Saved</span>
+                        ) : result?.status === "failed" ? (
+                          <span className="text-red-700">{result.message}</span>
+                        ) : skipped ? (
+                          <span className="text-red-700">Skip: {skipped}</span>
+                        ) : (
+                          <span className="text-gray-500">
+                            {isRunning ? "Waiting..." : ACTION_VERBS[action]}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t-2 border-amber-200 flex items-center justify-end gap-3">
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={isRunning}
+            className="px-6 py-3 rounded-xl border-2 border-amber-300 text-sm font-semibold text-gray-700 bg-white hover:bg-amber-50 disabled:opacity-60 transition-all"
+          >
+            {isFinished ? "Close" : "Cancel"}
+          </button>
+          {!isFinished && (
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={isRunning || !canApply}
+              className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md"
+            >
+              {isRunning
+                ? "Working..."
+                : `${ACTION_VERBS[action]} ${targets.length} ${
+                    targets.length === 1 ? "item" : "items"
+                  }`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkItemActionDialog;
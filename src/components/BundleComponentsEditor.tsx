@@ -0,0 +1,120 @@
+import React from "react";
+import type { Item, ItemComponent } from "../types/item.types";
+import { componentItemId } from "../utils/bundles";
+import { formatQuantity, quantityStep } from "../utils/units";
+
+interface BundleComponentsEditorProps {
+  components: ItemComponent[];
+  // Items that may go into the bundle
+  candidates: Item[];
+  error?: string;
+  onChange: (components: ItemComponent[]) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200";
+
+const BundleComponentsEditor: React.FC<BundleComponentsEditorProps> = ({
+  components,
+  candidates,
+  error,
+  onChange,
+}) => {
+  const handleComponentChange = (
+    index: number,
+    field: "item" | "quantity",
+    value: string
+  ) => {
+    onChange(
+      components.map((component, i) =>
+        i === index
+          ? {
+              ...component,
+              [field]: field === "item" ? value : Number(value) || 0,
+            }
+          : component
+      )
+    );
+  };
+
+  const handleAddComponent = () => {
+    onChange([...components, { item: "", quantity: 1 }]);
+  };
+
+  const handleRemoveComponent = (index: number) => {
+    onChange(components.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4 border-2 border-amber-100 rounded-xl p-4 bg-amber-50/30">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold text-gray-700">Bundle Components</p>
+          <p className="text-xs text-gray-500">
+            The items that make up one bundle. Selling the bundle deducts each
+            of them, and its stock is what the components can make up.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleAddComponent}
+          className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-xs font-semibold text-gray-700 hover:bg-amber-50 transition-all whitespace-nowrap"
+        >
+          + Add Component
+        </button>
+      </div>
+
+      {components.map((component, index) => {
+        const id = componentItemId(component) ?? "";
+        const item = candidates.find((candidate) => candidate._id === id);
+        return (
+          <div
+            key={index}
+            className="grid grid-cols-1 sm:grid-cols-[1fr_10rem_auto] gap-3 items-start"
+          >
+            <div>
+              <select
+                value={id}
+                onChange={(e) => handleComponentChange(index, "item", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Select item</option>
+                {candidates.map((candidate) => (
+                  <option key={candidate._id} value={candidate._id}>
+                    {candidate.name}
+                    {candidate.sku ? ` (${candidate.sku})` : ""}
+                  </option>
+                ))}
+              </select>
+              {item && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatQuantity(item.quantity, item.unit)} in stock
+                </p>
+              )}
+            </div>
+            <input
+              type="number"
+              min={0}
+              step={quantityStep(item?.unit)}
+              value={component.quantity}
+              onChange={(e) => handleComponentChange(index, "quantity", e.target.value)}
+              title="Quantity per bundle"
+              className={`${inputClass} text-right`}
+            />
+            <button
+              type="button"
+              onClick={() => handleRemoveComponent(index)}
+              className="px-3 py-2 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-all"
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default BundleComponentsEditor;
@@ -0,0 +1,37 @@
+import React, { useState } from "react";
+import type { ExportFormat } from "../utils/listExport";
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+}
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ onExport }) => {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleClick = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await onExport(format);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {(["csv", "json"] as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleClick(format)}
+          disabled={exporting !== null}
+          className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-xs font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all whitespace-nowrap"
+        >
+          {exporting === format ? "Exporting..." : `Export ${format.toUpperCase()}`}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportButtons;
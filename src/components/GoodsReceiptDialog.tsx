@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from "react";
+import { AxiosError } from "axios";
+import { purchaseOrderService } from "../services/purchaseOrderService";
+import { locationService } from "../services/locationService";
+import type { Location } from "../types/location.types";
+import { defaultLocationId } from "../utils/stock";
+import type {
+  PurchaseOrder,
+  PurchaseOrderLine,
+} from "../types/purchaseOrder.types";
+import type { UnitOfMeasure } from "../types/item.types";
+import {
+  formatQuantity,
+  hasValidPrecision,
+  quantityStep,
+  roundQuantity,
+} from "../utils/units";
+
+interface GoodsReceiptDialogProps {
+  order: PurchaseOrder;
+  getItemName: (line: PurchaseOrderLine) => string;
+  getItemUnit: (line: PurchaseOrderLine) => UnitOfMeasure | undefined;
+  tracksLots: (line: PurchaseOrderLine) => boolean;
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+const GoodsReceiptDialog: React.FC<GoodsReceiptDialogProps> = ({
+  order,
+  getItemName,
+  getItemUnit,
+  tracksLots,
+  onClose,
+  onReceived,
+}) => {
+  const outstanding = (line: PurchaseOrderLine): number =>
+    Math.max(
+      0,
+      roundQuantity(line.quantity - line.receivedQuantity, getItemUnit(line))
+    );
+
+  const [quantities, setQuantities] = useState<Record<string, number>>(() =>
+    Object.fromEntries(
+      order.lines
+        .filter((line) => line._id)
+        .map((line) => [line._id as string, outstanding(line)])
+    )
+  );
+  // Lot-tracked lines open a new lot per receipt
+  const [lotDetails, setLotDetails] = useState<
+    Record<string, { lotNumber: string; expiryDate: string }>
+  >({});
+  const [date, setDate] = useState(
+    () => new Date().toISOString().split("T")[0]
+  );
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    locationService
+      .getLocations({ page: 1, pageSize: 200 })
+      .then((response) => {
+        setLocations(response.data);
+        setLocationId(defaultLocationId(response.data));
+      })
+      .catch(() => setLocations([]));
+  }, []);
+
+  const handleQuantityChange = (lineId: string, value: string) => {
+    setQuantities((prev) => ({ ...prev, [lineId]: Number(value) || 0 }));
+  };
+
+  const handleLotChange = (
+    lineId: string,
+    field: "lotNumber" | "expiryDate",
+    value: string
+  ) => {
+    setLotDetails((prev) => ({
+      ...prev,
+      [lineId]: {
+        lotNumber: prev[lineId]?.lotNumber ?? "",
+        expiryDate: prev[lineId]?.expiryDate ?? "",
+        [field]: value,
+      },
+    }));
+  };
+
+  const showLots = order.lines.some(tracksLots);
+
+  const validate = (): string | null => {
+    const lines = order.lines.filter((line) => line._id);
+    if (lines.every((line) => !quantities[line._id as string]))
+      return "Enter a quantity for at least one line.";
+    for (const line of lines) {
+      const qty = quantities[line._id as string] ?? 0;
+      if (qty < 0) return "Received quantities cannot be negative.";
+      if (!hasValidPrecision(qty, getItemUnit(line)))
+        return `Quantity for ${getItemName(line)} has too many decimal places.`;
+      if (qty > outstanding(line))
+        return `Cannot receive more than ${outstanding(line)} of ${getItemName(line)}.`;
+      if (qty > 0 && tracksLots(line) && !lotDetails[line._id as string]?.lotNumber.trim())
+        return `Please enter a lot number for ${getItemName(line)}.`;
+    }
+    return null;
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!order._id) return;
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await purchaseOrderService.receiveGoods(order._id, {
+        lines: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([line, quantity]) => ({
+            line,
+            quantity,
+            lotNumber: lotDetails[line]?.lotNumber.trim() || undefined,
+            expiryDate: lotDetails[line]?.expiryDate || undefined,
+          })),
+        date,
+        location: locationId || undefined,
+      });
+      onReceived();
+    } catch (err: unknown) {
+      let message = "Failed to record goods receipt. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-900/50" onClick={onClose}></div>
+      <div className="relative w-full max-w-2xl bg-white border-2 border-amber-200 rounded-2xl shadow-2xl overflow-hidden">
+        <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Receive Goods</h2>
+            <p className="text-sm text-gray-600">
+              {order.orderNumber ?? "Purchase order"}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="overflow-x-auto border-2 border-amber-100 rounded-xl">
+            <table className="min-w-full divide-y divide-amber-100 text-sm">
+              <thead className="bg-amber-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-bold text-gray-700">
+                    Item
+                  </th>
+                  <th className="px-4 py-3 text-right font-bold text-gray-700">
+                    Ordered
+                  </th>
+                  <th className="px-4 py-3 text-right font-bold text-gray-700">
+                    Received
+                  </th>
+                  <th className="px-4 py-3 text-right font-bold text-gray-700">
+                    Receive Now
+                  </th>
+                  {showLots && (
+                    <>
+                      <th className="px-4 py-3 text-left font-bold text-gray-700">
+                        Lot
+                      </th>
+                      <th className="px-4 py-3 text-left font-bold text-gray-700">
+                        Expiry
+                      </th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100">
+                {order.lines.map((line) => (
+                  <tr key={line._id ?? getItemName(line)}>
+                    <td className="px-4 py-3 text-gray-800">
+                      {getItemName(line)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">
+                      {formatQuantity(line.quantity, getItemUnit(line))}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">
+                      {formatQuantity(line.receivedQuantity, getItemUnit(line))}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {line._id && outstanding(line) > 0 ? (
+                        <input
+                          type="number"
+                          min={0}
+                          max={outstanding(line)}
+                          step={quantityStep(getItemUnit(line))}
+                          value={quantities[line._id] ?? 0}
+                          onChange={(e) =>
+                            handleQuantityChange(line._id as string, e.target.value)
+                          }
+                          className="w-24 px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 text-right focus:outline-none focus:ring-2 focus:ring-amber-400"
+                        />
+                      ) : (
+                        <span className="text-green-700 font-semibold">
+                          Complete
+                        </span>
+                      )}
+                    </td>
+                    {showLots && (
+                      <>
+                        <td className="px-4 py-3">
+                          {line._id && tracksLots(line) && outstanding(line) > 0 && (
+                            <input
+                              type="text"
+                              value={lotDetails[line._id]?.lotNumber ?? ""}
+                              onChange={(e) =>
+                                handleLotChange(line._id as string, "lotNumber", e.target.value)
+                              }
+                              className="w-28 px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                            />
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          {line._id && tracksLots(line) && outstanding(line) > 0 && (
+                            <input
+                              type="date"
+                              value={lotDetails[line._id]?.expiryDate ?? ""}
+                              onChange={(e) =>
+                                handleLotChange(line._id as string, "expiryDate", e.target.value)
+                              }
+                              className="px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                            />
+                          )}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Receipt Date
+              </label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              />
+            </div>
+            {locations.length > 0 && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Receive Into
+                </label>
+                <select
+                  value={locationId}
+                  onChange={(e) => setLocationId(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                >
+                  {locations.map((location) => (
+                    <option key={location._id} value={location._id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 rounded-xl border-2 border-amber-300 text-sm font-semibold text-gray-700 bg-white hover:bg-amber-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md"
+            >
+              {isSubmitting ? "Saving..." : "Receive into Stock"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GoodsReceiptDialog;
@@ -0,0 +1,135 @@
+import React, { useState } from "react";
+
+interface InlineEditCellProps {
+  // Raw value the input starts from
+  value: string;
+  // What the cell shows while not editing
+  children: React.ReactNode;
+  type?: "text" | "number";
+  step?: string;
+  align?: "left" | "right";
+  // Shown instead of the edit button when the value cannot be edited in place
+  lockedHint?: string;
+  // Resolves to an error message to keep the cell open, or undefined once saved
+  onSave: (value: string) => Promise<string | undefined>;
+}
+
+const InlineEditCell: React.FC<InlineEditCellProps> = ({
+  value,
+  children,
+  type = "text",
+  step,
+  align = "left",
+  lockedHint,
+  onSave,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+
+  const startEditing = () => {
+    setDraft(value);
+    setError(undefined);
+    setIsEditing(true);
+  };
+
+  const cancel = () => {
+    setIsEditing(false);
+    setError(undefined);
+  };
+
+  const commit = async () => {
+    if (isSaving) return;
+    if (draft.trim() === value) {
+      cancel();
+      return;
+    }
+    setIsSaving(true);
+    const saveError = await onSave(draft);
+    setIsSaving(false);
+    setError(saveError);
+    if (!saveError) setIsEditing(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      void commit();
+    } else if (event.key === "Escape") {
+      cancel();
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div
+        className={`inline-flex items-center gap-1 ${
+          align === "right" ? "flex-row-reverse" : ""
+        }`}
+      >
+        {children}
+        {lockedHint ? (
+          <span className="text-gray-300 cursor-help" title={lockedHint}>
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+              />
+            </svg>
+          </span>
+        ) : (
+          <button
+            type="button"
+            onClick={startEditing}
+            title="Edit in place"
+            className="text-gray-300 hover:text-amber-600 transition-colors"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+              />
+            </svg>
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="inline-flex flex-col gap-1">
+      <input
+        type={type}
+        step={step}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setError(undefined);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => void commit()}
+        disabled={isSaving}
+        autoFocus
+        className={`w-32 px-2 py-1 border-2 rounded-lg bg-amber-50 text-sm focus:outline-none focus:ring-2 focus:ring-amber-400 disabled:opacity-60 ${
+          error ? "border-red-400" : "border-amber-300"
+        } ${align === "right" ? "text-right" : ""}`}
+      />
+      {isSaving ? (
+        <span className="text-xs font-normal text-amber-600">Saving...</span>
+      ) : (
+        error && (
+          <span className="text-xs font-normal text-red-600 whitespace-normal max-w-40">
+            {error}
+          </span>
+        )
+      )}
+    </div>
+  );
+};
+
+export default InlineEditCell;
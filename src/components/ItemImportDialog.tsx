@@ -0,0 +1,479 @@
+import React, { useEffect, useState } from "react";
+import { AxiosError } from "axios";
+import { itemService, type ItemPayload } from "../services/itemService";
+import type { Item } from "../types/item.types";
+import type { Category } from "../types/category.types";
+import type { Supplier } from "../types/supplier.types";
+import { csvToRecords } from "../utils/csv";
+import { triggerDownload } from "../utils/download";
+import { validateItemFields } from "../utils/itemValidation";
+import { itemToPayload } from "../utils/itemPayload";
+import { DEFAULT_UNIT, UNITS, formatQuantity } from "../utils/units";
+
+type RowStatus = "pending" | "saved" | "failed";
+
+interface ImportRow {
+  line: number;
+  payload: ItemPayload;
+  existing?: Item;
+  errors: string[];
+  notes: string[];
+  status: RowStatus;
+}
+
+interface ItemImportDialogProps {
+  categories: Category[];
+  suppliers: Supplier[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const TEMPLATE_HEADER =
+  "name,sku,barcode,description,category,tags,supplier,unit,quantity,price,costPrice,reorderLevel,reorderQuantity";
+
+// Header names are matched loosely so "Cost Price", "cost_price" and
+// "costPrice" all land on the same column.
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[^a-z]/g, "");
+
+// Drops fields whose cell was blank so they cannot clear existing values
+const withoutBlanks = <T extends object>(values: T): T =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as T;
+
+const ItemImportDialog: React.FC<ItemImportDialogProps> = ({
+  categories,
+  suppliers,
+  onClose,
+  onImported,
+}) => {
+  const [existingItems, setExistingItems] = useState<Item[] | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    itemService
+      .getAllItems({ archived: "include" })
+      .then(setExistingItems)
+      .catch(() => setError("Failed to load existing items for matching."));
+  }, []);
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+
+  const buildRows = (records: Record<string, string>[]): ImportRow[] => {
+    const known = existingItems ?? [];
+    const seenNames = new Set<string>();
+    const seenSkus = new Set<string>();
+
+    return records.map((raw, index) => {
+      const record = Object.fromEntries(
+        Object.entries(raw).map(([key, value]) => [normalizeKey(key), value])
+      );
+      const errors: string[] = [];
+      const notes: string[] = [];
+      const name = record.name ?? "";
+      const sku = record.sku ?? "";
+
+      const existing =
+        (sku && known.find((item) => item.sku === sku)) ||
+        known.find(
+          (item) => item.name.trim().toLowerCase() === name.trim().toLowerCase()
+        ) ||
+        undefined;
+      if (existing?.archivedAt)
+        errors.push(`Matches archived item "${existing.name}"; restore it first.`);
+
+      // Blank numeric cells are left out so updates keep the existing value
+      const readNumber = (key: string): number | undefined => {
+        const value = record[key] ?? "";
+        if (value === "") return undefined;
+        const parsed = Number(value);
+        if (Number.isNaN(parsed)) {
+          errors.push(`${key} must be a number.`);
+          return undefined;
+        }
+        return parsed;
+      };
+
+      const unitValue = (record.unit ?? "").toLowerCase();
+      const unit = UNITS.find((u) => u.value === unitValue)?.value;
+      if (unitValue && !unit) errors.push(`Unknown unit "${record.unit}".`);
+      // Stock, history and sales are recorded in the unit the item was created with
+      if (existing && unit && unit !== (existing.unit ?? DEFAULT_UNIT))
+        errors.push(`The unit of "${existing.name}" cannot be changed.`);
+
+      let category: string | undefined;
+      if (record.category) {
+        category = categories.find(
+          (c) => c.name.toLowerCase() === record.category.toLowerCase()
+        )?._id;
+        if (!category) errors.push(`Unknown category "${record.category}".`);
+      }
+
+      let preferredSupplier: string | undefined;
+      if (record.supplier) {
+        preferredSupplier = suppliers.find(
+          (s) => s.name.toLowerCase() === record.supplier.toLowerCase()
+        )?._id;
+        if (!preferredSupplier)
+          errors.push(`Unknown supplier "${record.supplier}".`);
+      }
+
+      const quantity = readNumber("quantity");
+      const barcode = record.barcode ?? "";
+      // Only filled cells change an existing item; everything the file has no
+      // column for, such as variants, components and tax, is sent back as it is
+      const overrides = withoutBlanks<Partial<ItemPayload>>({
+        name: name.trim() || undefined,
+        sku: sku || undefined,
+        barcode: barcode || undefined,
+        description: record.description?.trim() || undefined,
+        category,
+        tags: record.tags
+          ? [
+              ...new Set(
+                record.tags
+                  .split(/[,;|]/)
+                  .map((tag) => tag.trim())
+                  .filter(Boolean)
+              ),
+            ]
+          : undefined,
+        preferredSupplier,
+        unit,
+        price: readNumber("price"),
+        costPrice: readNumber("costprice"),
+        reorderLevel: readNumber("reorderlevel"),
+        reorderQuantity: readNumber("reorderquantity"),
+      });
+      const payload: ItemPayload = existing
+        ? { ...itemToPayload(existing), ...overrides }
+        : {
+            ...overrides,
+            name: name.trim(),
+            unit: unit ?? DEFAULT_UNIT,
+            quantity: quantity ?? 0,
+            price: overrides.price ?? 0,
+            reorderLevel: overrides.reorderLevel ?? 0,
+            reorderQuantity: overrides.reorderQuantity ?? 0,
+          };
+
+      const fieldErrors = validateItemFields(
+        {
+          name: payload.name,
+          sku: payload.sku ?? "",
+          barcode: payload.barcode ?? "",
+          description: payload.description ?? "",
+          unit: payload.unit,
+          quantity: quantity ?? 0,
+          price: payload.price,
+          costPrice: payload.costPrice,
+          taxRate: payload.taxRate,
+          reorderLevel: payload.reorderLevel ?? 0,
+          reorderQuantity: payload.reorderQuantity ?? 0,
+        },
+        !existing
+      );
+      errors.push(...Object.values(fieldErrors).filter(Boolean));
+
+      const nameKey = name.trim().toLowerCase();
+      if (nameKey && seenNames.has(nameKey))
+        errors.push("Duplicate name earlier in the file.");
+      seenNames.add(nameKey);
+      if (sku && seenSkus.has(sku)) errors.push("Duplicate SKU earlier in the file.");
+      if (sku) seenSkus.add(sku);
+
+      const skuOwner = sku && known.find((item) => item.sku === sku);
+      if (skuOwner && existing && skuOwner._id !== existing._id)
+        errors.push(`SKU already used by "${skuOwner.name}".`);
+      const barcodeOwner = barcode && known.find((item) => item.barcode === barcode);
+      if (barcodeOwner && barcodeOwner._id !== existing?._id)
+        errors.push(`Barcode already used by "${barcodeOwner.name}".`);
+
+      if (existing && quantity !== undefined && quantity !== existing.quantity)
+        notes.push("Stock is left unchanged; use Adjust Stock for quantities.");
+
+      return {
+        // Line numbers count the header row so they match the spreadsheet
+        line: index + 2,
+        payload,
+        existing,
+        errors,
+        notes,
+        status: "pending" as RowStatus,
+      };
+    });
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setIsFinished(false);
+    setFileName(file.name);
+
+    const records = csvToRecords(await file.text());
+    if (records.length === 0) {
+      setRows([]);
+      setError("The file has no data rows.");
+      return;
+    }
+    if (!("name" in records[0])) {
+      setRows([]);
+      setError('The file must have a header row with at least a "name" column.');
+      return;
+    }
+    setRows(buildRows(records));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    // Saved one at a time so a single bad row does not abort the batch
+    for (const row of validRows) {
+      let status: RowStatus = "saved";
+      let message: string | undefined;
+      try {
+        if (row.existing?._id) {
+          await itemService.updateItem(row.existing._id, row.payload);
+        } else {
+          await itemService.createItem(row.payload);
+        }
+      } catch (err: unknown) {
+        status = "failed";
+        message = "Failed to save row.";
+        if (err instanceof AxiosError) {
+          message =
+            err.response?.data?.error || err.response?.data?.message || message;
+        }
+      }
+      setRows((prev) =>
+        prev.map((r) =>
+          r.line === row.line
+            ? { ...r, status, errors: message ? [message] : r.errors }
+            : r
+        )
+      );
+    }
+
+    setIsImporting(false);
+    setIsFinished(true);
+  };
+
+  const handleDownloadTemplate = () => {
+    triggerDownload(
+      new Blob([`${TEMPLATE_HEADER}\n`], { type: "text/csv" }),
+      "items-template.csv"
+    );
+  };
+
+  const savedCount = rows.filter((row) => row.status === "saved").length;
+  const failedCount = rows.filter((row) => row.status === "failed").length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="fixed inset-0 bg-gray-900/50"
+        onClick={isImporting ? undefined : onClose}
+      ></div>
+      <div className="relative w-full max-w-5xl max-h-[90vh] flex flex-col bg-white border-2 border-amber-200 rounded-2xl shadow-2xl overflow-hidden">
+        <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Import Items</h2>
+            <p className="text-sm text-gray-600">
+              Existing items are matched by SKU, then by name, and updated.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isImporting}
+            className="text-gray-500 hover:text-gray-800 text-2xl leading-none disabled:opacity-40"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <label className="inline-flex items-center justify-center px-5 py-3 rounded-xl border-2 border-amber-300 bg-amber-50 text-sm font-semibold text-gray-700 hover:bg-amber-100 cursor-pointer transition-all">
+              {fileName || "Choose CSV file"}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                disabled={existingItems === null || isImporting}
+                className="hidden"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleDownloadTemplate}
+              className="text-sm font-semibold text-amber-700 hover:text-amber-900 underline"
+            >
+              Download template
+            </button>
+            {existingItems === null && !error && (
+              <span className="text-sm text-gray-500">Loading items...</span>
+            )}
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="px-3 py-1 rounded-full bg-green-100 text-green-800 font-semibold">
+                  {validRows.filter((row) => !row.existing).length} new
+                </span>
+                <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-800 font-semibold">
+                  {validRows.filter((row) => row.existing).length} updates
+                </span>
+                <span className="px-3 py-1 rounded-full bg-red-100 text-red-800 font-semibold">
+                  {invalidCount} with errors (skipped)
+                </span>
+                {isFinished && (
+                  <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-800 font-semibold">
+                    {savedCount} saved, {failedCount} failed
+                  </span>
+                )}
+              </div>
+
+              <div className="overflow-x-auto border-2 border-amber-100 rounded-xl">
+                <table className="min-w-full divide-y divide-amber-100 text-sm">
+                  <thead className="bg-amber-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-bold text-gray-700">
+                        Line
+                      </th>
+                      <th className="px-3 py-2 text-left font-bold text-gray-700">
+                        Name
+                      </th>
+                      <th className="px-3 py-2 text-left font-bold text-gray-700">
+                        SKU
+                      </th>
+                      <th className="px-3 py-2 text-right font-bold text-gray-700">
+                        Qty
+                      </th>
+                      <th className="px-3 py-2 text-right font-bold text-gray-700">
+                        Price
+                      </th>
+                      <th className="px-3 py-2 text-left font-bold text-gray-700">
+                        Action
+                      </th>
+                      <th className="px-3 py-2 text-left font-bold text-gray-700">
+                        Issues
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-amber-100">
+                    {rows.map((row) => (
+                      <tr
+                        key={row.line}
+                        className={
+                          row.errors.length > 0 ? "bg-red-50" : undefined
+                        }
+                      >
+                        <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-3 py-2 text-gray-800 font-medium">
+                          {row.payload.name || "-"}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {row.payload.sku ?? "-"}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-700">
+                          {formatQuantity(
+                            row.existing?.quantity ?? row.payload.quantity ?? 0,
+                            row.payload.unit
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-700">
+                          ₹ {row.payload.price.toFixed(2)}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {row.status === "saved" ? (
+                            <span className="text-green-700 font-semibold">
+                              Saved
+                            </span>
+                          ) : row.status === "failed" ? (
+                            <span className="text-red-700 font-semibold">
+                              Failed
+                            </span>
+                          ) : row.errors.length > 0 ? (
+                            <span className="text-red-700 font-semibold">
+                              Skip
+                            </span>
+                          ) : (
+                            <span className="text-gray-700 font-semibold">
+                              {row.existing ? "Update" : "Create"}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-xs">
+                          {row.errors.map((message) => (
+                            <p key={message} className="text-red-700">
+                              {message}
+                            </p>
+                          ))}
+                          {row.notes.map((message) => (
+                            <p key={message} className="text-gray-500">
+                              {message}
+                            </p>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t-2 border-amber-200 flex items-center justify-end gap-3">
+          {isFinished ? (
+            <button
+              type="button"
+              onClick={onImported}
+              className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-600 transition-all shadow-md"
+            >
+              Done
+            </button>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isImporting}
+                className="px-6 py-3 rounded-xl border-2 border-amber-300 text-sm font-semibold text-gray-700 bg-white hover:bg-amber-50 disabled:opacity-60 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || validRows.length === 0}
+                className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md"
+              >
+                {isImporting
+                  ? "Importing..."
+                  : `Import ${validRows.length} Item(s)`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItemImportDialog;
@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from "react";
+import { AxiosError } from "axios";
+import { priceChangeService } from "../services/priceChangeService";
+import type { Item } from "../types/item.types";
+import type { PriceChange } from "../types/priceChange.types";
+import { variantLabel } from "../utils/variants";
+import { parseLocalDate, toDateInput } from "../utils/dates";
+
+interface PriceHistoryDialogProps {
+  item: Item;
+  onClose: () => void;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+const tomorrow = (): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return toDateInput(date);
+};
+
+const formatDate = (dateString?: string): string => {
+  if (!dateString) return "-";
+  const date = parseLocalDate(dateString);
+  if (Number.isNaN(date.getTime())) return dateString;
+  return date.toLocaleDateString();
+};
+
+const PriceHistoryDialog: React.FC<PriceHistoryDialogProps> = ({
+  item,
+  onClose,
+}) => {
+  // Items with variants are priced per variant, so one must be picked
+  const [variantId, setVariantId] = useState(item.variants?.[0]?._id ?? "");
+  const variant = item.variants?.find((v) => v._id === variantId);
+  const currentPrice = variant?.price ?? item.price;
+
+  const [price, setPrice] = useState(currentPrice);
+  const [effectiveDate, setEffectiveDate] = useState(tomorrow);
+  const [reason, setReason] = useState("");
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChanges = async (): Promise<void> => {
+    if (!item._id) return;
+    try {
+      setIsLoading(true);
+      const response = await priceChangeService.getPriceChanges({
+        item: item._id,
+        variant: variantId || undefined,
+        page: 1,
+        pageSize: HISTORY_PAGE_SIZE,
+      });
+      setChanges(response.data);
+    } catch {
+      setError("Failed to load price history.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadChanges();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [item._id, variantId]);
+
+  const scheduled = changes
+    .filter((change) => change.status === "scheduled")
+    .sort((a, b) => (a.effectiveDate < b.effectiveDate ? -1 : 1));
+  const history = changes.filter((change) => change.status !== "scheduled");
+
+  const validate = (): string | null => {
+    if (price <= 0) return "Price must be greater than 0.";
+    if (!effectiveDate) return "Please choose an effective date.";
+    // Changes for today are made by editing the item directly
+    if (effectiveDate <= toDateInput(new Date()))
+      return "Scheduled changes must take effect on a future date.";
+    if (scheduled.some((change) => change.effectiveDate.startsWith(effectiveDate)))
+      return "A price change is already scheduled for that date.";
+    return null;
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!item._id) return;
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await priceChangeService.schedulePriceChange({
+        item: item._id,
+        variant: variant?._id,
+        price,
+        effectiveDate,
+        reason: reason.trim() || undefined,
+      });
+      setReason("");
+      void loadChanges();
+    } catch (err: unknown) {
+      let message = "Failed to schedule price change. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelChange = async (id: string | undefined): Promise<void> => {
+    if (!id) return;
+    const confirmed = window.confirm("Cancel this scheduled price change?");
+    if (!confirmed) return;
+
+    try {
+      await priceChangeService.cancelPriceChange(id);
+      void loadChanges();
+    } catch {
+      setError("Failed to cancel price change. Please try again.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-900/50" onClick={onClose}></div>
+      <div className="relative w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white border-2 border-amber-200 rounded-2xl shadow-2xl">
+        <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Prices</h2>
+            <p className="text-sm text-gray-600">
+              {item.name} · currently ₹ {currentPrice.toFixed(2)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {item.variants && item.variants.length > 0 && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Variant
+              </label>
+              <select
+                value={variantId}
+                onChange={(e) => {
+                  const next = item.variants?.find((v) => v._id === e.target.value);
+                  setVariantId(e.target.value);
+                  setPrice(next?.price ?? item.price);
+                  setError(null);
+                }}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              >
+                {item.variants.map((v) => (
+                  <option key={v._id} value={v._id}>
+                    {`${variantLabel(v, item.options)} (₹ ${v.price.toFixed(2)})`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                New Price (₹)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(Number(e.target.value) || 0)}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Effective From
+              </label>
+              <input
+                type="date"
+                min={tomorrow()}
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Reason
+            </label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Supplier price increase"
+              className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md"
+            >
+              {isSubmitting ? "Saving..." : "Schedule Change"}
+            </button>
+          </div>
+
+          {scheduled.length > 0 && (
+            <div>
+              <p className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                Scheduled
+              </p>
+              <ul className="divide-y divide-amber-100 border-2 border-amber-100 rounded-lg text-sm">
+                {scheduled.map((change) => (
+                  <li
+                    key={change._id ?? change.effectiveDate}
+                    className="px-3 py-2 flex items-center justify-between gap-3"
+                  >
+                    <div className="min-w-0">
+                      <span className="font-semibold text-gray-800">
+                        ₹ {change.price.toFixed(2)}
+                      </span>
+                      <span className="text-gray-500">
+                        {" "}
+                        from {formatDate(change.effectiveDate)}
+                        {change.reason ? ` · ${change.reason}` : ""}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleCancelChange(change._id)}
+                      className="px-3 py-1 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-all"
+                    >
+                      Cancel
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <p className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+              History
+            </p>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-gray-500">No price changes recorded yet.</p>
+            ) : (
+              <ul className="divide-y divide-amber-100 border-2 border-amber-100 rounded-lg text-sm">
+                {history.map((change) => (
+                  <li
+                    key={change._id ?? change.createdAt}
+                    className={`px-3 py-2 ${
+                      change.status === "cancelled" ? "opacity-60" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="font-semibold text-gray-800">
+                        {change.previousPrice !== undefined
+                          ? `₹ ${change.previousPrice.toFixed(2)} → `
+                          : ""}
+                        ₹ {change.price.toFixed(2)}
+                        {change.status === "cancelled" && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            Cancelled
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-gray-500 whitespace-nowrap">
+                        {formatDate(change.effectiveDate)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {change.createdBy ?? "Unknown user"}
+                      {change.reason ? ` · ${change.reason}` : ""}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PriceHistoryDialog;
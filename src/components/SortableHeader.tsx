@@ -0,0 +1,40 @@
+import type { ListSort } from "../utils/sorting";
+
+interface SortableHeaderProps<F extends string> {
+  label: string;
+  field: F;
+  sort?: ListSort<F>;
+  onSort: (field: F) => void;
+  className: string;
+}
+
+const SortableHeader = <F extends string>({
+  label,
+  field,
+  sort,
+  onSort,
+  className,
+}: SortableHeaderProps<F>) => {
+  const active = sort?.sortBy === field;
+  const descending = active && sort?.sortDir === "desc";
+
+  return (
+    <th
+      className={className}
+      aria-sort={active ? (descending ? "descending" : "ascending") : "none"}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className="inline-flex items-center gap-1 uppercase hover:text-amber-700 transition-colors"
+      >
+        {label}
+        <span className={active ? "text-amber-600" : "text-gray-300"}>
+          {descending ? "▼" : "▲"}
+        </span>
+      </button>
+    </th>
+  );
+};
+
+export default SortableHeader;
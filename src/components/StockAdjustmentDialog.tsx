@@ -0,0 +1,448 @@
+import React, { useEffect, useState } from "react";
+import { AxiosError } from "axios";
+import { stockMovementService } from "../services/stockMovementService";
+import { locationService } from "../services/locationService";
+import type { Item } from "../types/item.types";
+import type { Location } from "../types/location.types";
+import type {
+  StockMovement,
+  StockMovementType,
+} from "../types/stockMovement.types";
+import {
+  formatQuantity,
+  hasValidPrecision,
+  quantityStep,
+  roundQuantity,
+} from "../utils/units";
+import { variantLabel } from "../utils/variants";
+import { defaultLocationId, quantityAtLocation } from "../utils/stock";
+import {
+  formatExpiry,
+  isExpired,
+  lotsAtLocation,
+  sortLotsByExpiry,
+} from "../utils/lots";
+
+type AdjustmentType = Exclude<StockMovementType, "sale">;
+
+interface StockAdjustmentDialogProps {
+  item: Item;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const ADJUSTMENT_OPTIONS: {
+  type: AdjustmentType;
+  label: string;
+  hint: string;
+}[] = [
+  { type: "receive", label: "Receive", hint: "Goods received into stock" },
+  {
+    type: "damage",
+    label: "Damage / Write-off",
+    hint: "Damaged, expired or lost stock",
+  },
+  {
+    type: "correction",
+    label: "Correction",
+    hint: "Set stock to a counted quantity",
+  },
+];
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receive: "Received",
+  damage: "Written off",
+  correction: "Correction",
+  sale: "Sale",
+};
+
+const StockAdjustmentDialog: React.FC<StockAdjustmentDialogProps> = ({
+  item,
+  onClose,
+  onSaved,
+}) => {
+  const [type, setType] = useState<AdjustmentType>("receive");
+  // Items with variants hold stock per variant, so one must be picked
+  const [variantId, setVariantId] = useState(item.variants?.[0]?._id ?? "");
+  const [quantity, setQuantity] = useState(0);
+  const [reason, setReason] = useState("");
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState("");
+  // Receipts open a new lot; write-offs and corrections pick an existing one
+  const [lotId, setLotId] = useState("");
+  const [lotNumber, setLotNumber] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [history, setHistory] = useState<StockMovement[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    locationService
+      .getLocations({ page: 1, pageSize: 200 })
+      .then((response) => {
+        setLocations(response.data);
+        setLocationId(defaultLocationId(response.data));
+      })
+      .catch(() => setLocations([]));
+  }, []);
+
+  useEffect(() => {
+    if (!item._id) return;
+    stockMovementService
+      .getMovements({
+        item: item._id,
+        variant: variantId || undefined,
+        location: locationId || undefined,
+        page: 1,
+        pageSize: 5,
+      })
+      .then((response) => setHistory(response.data))
+      .catch(() => setHistory([]));
+  }, [item._id, variantId, locationId]);
+
+  const variant = item.variants?.find((v) => v._id === variantId);
+  const lots = item.trackLots
+    ? sortLotsByExpiry(lotsAtLocation(item, locationId || undefined))
+    : [];
+  const lot =
+    item.trackLots && type !== "receive"
+      ? lots.find((l) => l._id === lotId)
+      : undefined;
+  // Variants keep their own per-location breakdown
+  const currentQuantity = lot
+    ? lot.quantity
+    : quantityAtLocation(variant ?? item, locationId || undefined);
+
+  // For corrections the input is the counted quantity, otherwise the amount moved
+  const change =
+    type === "receive"
+      ? quantity
+      : type === "damage"
+      ? -quantity
+      : roundQuantity(quantity - currentQuantity, item.unit);
+  const newQuantity = roundQuantity(currentQuantity + change, item.unit);
+
+  const validate = (): string | null => {
+    if (type === "correction") {
+      if (quantity < 0) return "Counted quantity cannot be negative.";
+      if (change === 0) return "Counted quantity matches current stock.";
+    } else if (quantity <= 0) {
+      return "Quantity must be greater than 0.";
+    }
+    if (!hasValidPrecision(quantity, item.unit))
+      return "Quantity has more decimal places than this item's unit allows.";
+    if (item.trackLots && type === "receive" && !lotNumber.trim())
+      return "Please enter a lot number.";
+    if (item.trackLots && type !== "receive" && !lot)
+      return "Please select a lot.";
+    if (type === "damage" && quantity > currentQuantity)
+      return "Cannot write off more than the current stock.";
+    if (reason.trim().length < 3) return "Please enter a reason.";
+    return null;
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!item._id) return;
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    const target = { variant: variant?._id, location: locationId || undefined };
+    try {
+      if (type === "receive") {
+        await stockMovementService.receiveStock(
+          item._id,
+          quantity,
+          reason.trim(),
+          {
+            ...target,
+            lotNumber: item.trackLots ? lotNumber.trim() : undefined,
+            expiryDate: item.trackLots ? expiryDate || undefined : undefined,
+          }
+        );
+      } else if (type === "damage") {
+        await stockMovementService.writeOffStock(
+          item._id,
+          quantity,
+          reason.trim(),
+          { ...target, lot: lot?._id }
+        );
+      } else {
+        await stockMovementService.correctStock(
+          item._id,
+          quantity,
+          reason.trim(),
+          { ...target, lot: lot?._id }
+        );
+      }
+      onSaved();
+    } catch (err: unknown) {
+      let message = "Failed to adjust stock. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-900/50" onClick={onClose}></div>
+      <div className="relative w-full max-w-lg bg-white border-2 border-amber-200 rounded-2xl shadow-2xl overflow-hidden">
+        <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">Adjust Stock</h2>
+            <p className="text-sm text-gray-600">
+              {item.name} · {formatQuantity(item.quantity, item.unit)} in stock
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {locations.length > 0 && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Location
+              </label>
+              <select
+                value={locationId}
+                onChange={(e) => {
+                  setLocationId(e.target.value);
+                  setLotId("");
+                  setQuantity(
+                    type === "correction"
+                      ? quantityAtLocation(variant ?? item, e.target.value)
+                      : 0
+                  );
+                  setError(null);
+                }}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              >
+                {locations.map((location) => (
+                  <option key={location._id} value={location._id}>
+                    {`${location.name} (${formatQuantity(quantityAtLocation(variant ?? item, location._id), item.unit)})`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {item.variants && item.variants.length > 0 && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Variant
+              </label>
+              <select
+                value={variantId}
+                onChange={(e) => {
+                  const next = item.variants?.find((v) => v._id === e.target.value);
+                  setVariantId(e.target.value);
+                  setQuantity(
+                    type === "correction" && next
+                      ? quantityAtLocation(next, locationId || undefined)
+                      : 0
+                  );
+                  setError(null);
+                }}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              >
+                {item.variants.map((v) => (
+                  <option key={v._id} value={v._id}>
+                    {`${variantLabel(v, item.options)} (${formatQuantity(quantityAtLocation(v, locationId || undefined), item.unit)})`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {ADJUSTMENT_OPTIONS.map((option) => (
+              <button
+                key={option.type}
+                type="button"
+                onClick={() => {
+                  setType(option.type);
+                  setQuantity(
+                    option.type === "correction" && (!item.trackLots || lot)
+                      ? currentQuantity
+                      : 0
+                  );
+                  setError(null);
+                }}
+                title={option.hint}
+                className={`px-3 py-2 rounded-lg text-sm font-semibold transition-all ${
+                  type === option.type
+                    ? "bg-linear-to-r from-amber-500 to-orange-500 text-white shadow-md"
+                    : "bg-amber-50 text-gray-700 border-2 border-amber-200 hover:bg-amber-100"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {item.trackLots && type === "receive" && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Lot Number
+                </label>
+                <input
+                  type="text"
+                  value={lotNumber}
+                  onChange={(e) => setLotNumber(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Expiry Date
+                </label>
+                <input
+                  type="date"
+                  value={expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                />
+              </div>
+            </div>
+          )}
+
+          {item.trackLots && type !== "receive" && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Lot
+              </label>
+              <select
+                value={lotId}
+                onChange={(e) => {
+                  const next = lots.find((l) => l._id === e.target.value);
+                  setLotId(e.target.value);
+                  setQuantity(type === "correction" ? next?.quantity ?? 0 : 0);
+                  setError(null);
+                }}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              >
+                <option value="">Select lot</option>
+                {lots.map((l) => (
+                  <option key={l._id} value={l._id}>
+                    {`${l.lotNumber} · ${isExpired(l) ? "Expired" : `Exp ${formatExpiry(l.expiryDate)}`} (${formatQuantity(l.quantity, item.unit)})`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              {type === "correction" ? "Counted Quantity" : "Quantity"}
+            </label>
+            <input
+              type="number"
+              min={0}
+              step={quantityStep(item.unit)}
+              value={quantity}
+              onChange={(e) => setQuantity(Number(e.target.value) || 0)}
+              className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              New stock will be{" "}
+              <span className="font-semibold text-gray-700">
+                {formatQuantity(newQuantity, item.unit)}
+              </span>{" "}
+              ({change >= 0 ? "+" : ""}
+              {change})
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              Reason
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              placeholder="e.g. Delivery from supplier, broken in transit"
+              className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent resize-none transition-all"
+            />
+          </div>
+
+          {history.length > 0 && (
+            <div>
+              <p className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                Recent Movements
+              </p>
+              <ul className="divide-y divide-amber-100 border-2 border-amber-100 rounded-lg text-sm">
+                {history.map((movement) => (
+                  <li
+                    key={movement._id ?? movement.createdAt}
+                    className="px-3 py-2 flex items-center justify-between gap-3"
+                  >
+                    <div className="min-w-0">
+                      <span className="font-semibold text-gray-800">
+                        {MOVEMENT_LABELS[movement.type]}
+                      </span>
+                      <span className="text-gray-500 truncate">
+                        {" "}
+                        · {movement.reason}
+                      </span>
+                    </div>
+                    <span
+                      className={`font-bold whitespace-nowrap ${
+                        movement.quantity >= 0 ? "text-green-700" : "text-red-700"
+                      }`}
+                    >
+                      {movement.quantity >= 0 ? "+" : ""}
+                      {formatQuantity(movement.quantity, item.unit)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-3 rounded-xl border-2 border-amber-300 text-sm font-semibold text-gray-700 bg-white hover:bg-amber-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md"
+            >
+              {isSubmitting ? "Saving..." : "Record Movement"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StockAdjustmentDialog;
@@ -0,0 +1,49 @@
+import React from "react";
+import type { UnitOfMeasure } from "../types/item.types";
+import type { SeriesPoint } from "../utils/salesSeries";
+import { formatQuantity } from "../utils/units";
+
+interface UnitsSoldChartProps {
+  points: SeriesPoint[];
+  unit?: UnitOfMeasure;
+}
+
+const UnitsSoldChart: React.FC<UnitsSoldChartProps> = ({ points, unit }) => {
+  const max = Math.max(0, ...points.map((point) => point.quantity));
+
+  if (max === 0) {
+    return (
+      <p className="py-12 text-center text-sm text-gray-500">
+        No sales in this period.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-end gap-2 h-48">
+      {points.map((point) => (
+        <div
+          key={point.label}
+          className="flex-1 h-full flex flex-col items-center gap-1 min-w-0"
+          title={`${point.label}: ${formatQuantity(point.quantity, unit)}`}
+        >
+          <div className="flex-1 w-full flex flex-col justify-end items-center">
+            <span className="text-[10px] font-semibold text-gray-600">
+              {point.quantity > 0 ? point.quantity : ""}
+            </span>
+            <div
+              className="w-full rounded-t-md bg-linear-to-t from-amber-500 to-orange-400"
+              // Scaled against the busiest month in the range
+              style={{ height: `${(point.quantity / max) * 90}%` }}
+            ></div>
+          </div>
+          <span className="text-[10px] text-gray-500 truncate w-full text-center">
+            {point.label}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default UnitsSoldChart;
@@ -0,0 +1,237 @@
+import React from "react";
+import type { ItemVariant, UnitOfMeasure } from "../types/item.types";
+import { quantityStep } from "../utils/units";
+import {
+  buildVariantMatrix,
+  parseOptionDrafts,
+  variantLabel,
+  type OptionDraft,
+} from "../utils/variants";
+
+interface VariantMatrixEditorProps {
+  optionDrafts: OptionDraft[];
+  variants: ItemVariant[];
+  // Variants as last saved, so rows dropped while typing keep their identity
+  // and stock when their combination comes back
+  savedVariants?: ItemVariant[];
+  // Shown instead of allowing new options when variants cannot be added
+  lockedHint?: string;
+  // Opening stock can only be typed in for a new item
+  stockEditable?: boolean;
+  unit: UnitOfMeasure;
+  defaultPrice: number;
+  defaultCostPrice?: number;
+  error?: string;
+  onChange: (optionDrafts: OptionDraft[], variants: ItemVariant[]) => void;
+}
+
+const MAX_OPTIONS = 3;
+
+const inputClass =
+  "w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed";
+
+const VariantMatrixEditor: React.FC<VariantMatrixEditorProps> = ({
+  optionDrafts,
+  variants,
+  savedVariants = [],
+  lockedHint,
+  stockEditable = true,
+  unit,
+  defaultPrice,
+  defaultCostPrice,
+  error,
+  onChange,
+}) => {
+  const options = parseOptionDrafts(optionDrafts);
+
+  const handleOptionChange = (
+    index: number,
+    field: keyof OptionDraft,
+    value: string
+  ) => {
+    const nextDrafts = optionDrafts.map((draft, i) =>
+      i === index ? { ...draft, [field]: value } : draft
+    );
+    onChange(
+      nextDrafts,
+      buildVariantMatrix(parseOptionDrafts(nextDrafts), [...variants, ...savedVariants], {
+        price: defaultPrice,
+        costPrice: defaultCostPrice,
+      })
+    );
+  };
+
+  const handleAddOption = () => {
+    onChange([...optionDrafts, { name: "", values: "" }], variants);
+  };
+
+  const handleRemoveOption = (index: number) => {
+    const nextDrafts = optionDrafts.filter((_, i) => i !== index);
+    onChange(
+      nextDrafts,
+      buildVariantMatrix(parseOptionDrafts(nextDrafts), [...variants, ...savedVariants], {
+        price: defaultPrice,
+        costPrice: defaultCostPrice,
+      })
+    );
+  };
+
+  const handleVariantChange = (
+    index: number,
+    field: "sku" | "price" | "costPrice" | "quantity",
+    value: string
+  ) => {
+    // A blank cost is left unknown rather than zero
+    const parsed =
+      field === "sku"
+        ? value
+        : field === "costPrice" && value === ""
+        ? undefined
+        : Number(value) || 0;
+    onChange(
+      optionDrafts,
+      variants.map((variant, i) =>
+        i === index
+          ? { ...variant, [field]: parsed }
+          : variant
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-4 border-2 border-amber-100 rounded-xl p-4 bg-amber-50/30">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold text-gray-700">Variants</p>
+          <p className="text-xs text-gray-500">
+            Add options such as Size or Colour; each combination becomes a
+            variant with its own SKU, price and stock.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleAddOption}
+          disabled={optionDrafts.length >= MAX_OPTIONS || Boolean(lockedHint)}
+          className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-xs font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all whitespace-nowrap"
+        >
+          + Add Option
+        </button>
+      </div>
+
+      {lockedHint && <p className="text-xs text-gray-500">{lockedHint}</p>}
+
+      {optionDrafts.map((draft, index) => (
+        <div key={index} className="grid grid-cols-1 sm:grid-cols-[12rem_1fr_auto] gap-3">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => handleOptionChange(index, "name", e.target.value)}
+            placeholder="Option, e.g. Size"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={draft.values}
+            onChange={(e) => handleOptionChange(index, "values", e.target.value)}
+            placeholder="Values, comma separated, e.g. S, M, L"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={() => handleRemoveOption(index)}
+            className="px-3 py-2 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-all"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto border-2 border-amber-100 rounded-xl bg-white">
+          <table className="min-w-full divide-y divide-amber-100 text-sm">
+            <thead className="bg-amber-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-bold text-gray-700">
+                  Variant
+                </th>
+                <th className="px-3 py-2 text-left font-bold text-gray-700">
+                  SKU
+                </th>
+                <th className="px-3 py-2 text-right font-bold text-gray-700">
+                  Price (₹)
+                </th>
+                <th className="px-3 py-2 text-right font-bold text-gray-700">
+                  Cost (₹)
+                </th>
+                <th className="px-3 py-2 text-right font-bold text-gray-700">
+                  Quantity ({unit})
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-amber-100">
+              {variants.map((variant, index) => (
+                <tr key={variant._id ?? variantLabel(variant, options)}>
+                  <td className="px-3 py-2 font-medium text-gray-800 whitespace-nowrap">
+                    {variantLabel(variant, options)}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={variant.sku ?? ""}
+                      onChange={(e) =>
+                        handleVariantChange(index, "sku", e.target.value)
+                      }
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2 w-32">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={variant.price}
+                      onChange={(e) =>
+                        handleVariantChange(index, "price", e.target.value)
+                      }
+                      className={`${inputClass} text-right`}
+                    />
+                  </td>
+                  <td className="px-3 py-2 w-32">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={variant.costPrice ?? ""}
+                      onChange={(e) =>
+                        handleVariantChange(index, "costPrice", e.target.value)
+                      }
+                      className={`${inputClass} text-right`}
+                    />
+                  </td>
+                  <td className="px-3 py-2 w-32">
+                    {/* Stock of saved items changes through stock movements */}
+                    <input
+                      type="number"
+                      min={0}
+                      step={quantityStep(unit)}
+                      value={variant.quantity}
+                      onChange={(e) =>
+                        handleVariantChange(index, "quantity", e.target.value)
+                      }
+                      disabled={!stockEditable || Boolean(variant._id)}
+                      className={`${inputClass} text-right`}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default VariantMatrixEditor;
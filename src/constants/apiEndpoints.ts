@@ -9,10 +9,51 @@ export const API_ENDPOINTS = {
   ITEMS: {
     BASE: "/items",
     GET_BY_ID: (id: string) => `/items/${id}`,
+    ARCHIVE: (id: string) => `/items/${id}/archive`,
+    RESTORE: (id: string) => `/items/${id}/restore`,
+    LOOKUP: (code: string) => `/items/lookup/${encodeURIComponent(code)}`,
+  },
+  STOCK_MOVEMENTS: {
+    BASE: "/stock-movements",
+  },
+  PRICE_CHANGES: {
+    BASE: "/price-changes",
+    GET_BY_ID: (id: string) => `/price-changes/${id}`,
+  },
+  STOCK_TRANSFERS: {
+    BASE: "/stock-transfers",
+    GET_BY_ID: (id: string) => `/stock-transfers/${id}`,
+    STATUS: (id: string) => `/stock-transfers/${id}/status`,
+  },
+  STOCKTAKES: {
+    BASE: "/stocktakes",
+    GET_BY_ID: (id: string) => `/stocktakes/${id}`,
+    COUNTS: (id: string) => `/stocktakes/${id}/counts`,
+    STATUS: (id: string) => `/stocktakes/${id}/status`,
+  },
+  CATEGORIES: {
+    BASE: "/categories",
+    GET_BY_ID: (id: string) => `/categories/${id}`,
+  },
+  LOCATIONS: {
+    BASE: "/locations",
+    GET_BY_ID: (id: string) => `/locations/${id}`,
   },
   CUSTOMERS: {
     BASE: "/customers",
     GET_BY_ID: (id: string) => `/customers/${id}`,
+    ARCHIVE: (id: string) => `/customers/${id}/archive`,
+    RESTORE: (id: string) => `/customers/${id}/restore`,
+  },
+  SUPPLIERS: {
+    BASE: "/suppliers",
+    GET_BY_ID: (id: string) => `/suppliers/${id}`,
+  },
+  PURCHASE_ORDERS: {
+    BASE: "/purchase-orders",
+    GET_BY_ID: (id: string) => `/purchase-orders/${id}`,
+    STATUS: (id: string) => `/purchase-orders/${id}/status`,
+    RECEIVE: (id: string) => `/purchase-orders/${id}/receive`,
   },
   SALES: {
     BASE: "/sales",
@@ -22,5 +63,8 @@ export const API_ENDPOINTS = {
     DASHBOARD: "/reports/dashboard",
     SALES: "/reports/sales",
     INVENTORY: "/reports/inventory",
+    INVENTORY_BY_CATEGORY: "/reports/inventory/categories",
+    INVENTORY_BY_LOCATION: "/reports/inventory/locations",
+    EXPIRING_LOTS: "/reports/inventory/expiring",
   },
 };
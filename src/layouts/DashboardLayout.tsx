@@ -4,6 +4,8 @@ import {
   FaHome,
   FaBox,
   FaUsers,
+  FaTruck,
+  FaClipboardList,
   FaShoppingCart,
   FaChartBar,
   FaSignOutAlt,
@@ -24,7 +26,18 @@ const DashboardLayout: React.FC = () => {
 
   const navigation = [
     { name: "Dashboard", href: "/", icon: FaHome },
-    { name: "Inventory", href: "/inventory", icon: FaBox },
+    {
+      name: "Inventory",
+      icon: FaBox,
+      submenu: [
+        { name: "Items", href: "/inventory" },
+        { name: "Categories", href: "/inventory/categories" },
+        { name: "Locations", href: "/inventory/locations" },
+        { name: "Transfers", href: "/inventory/transfers" },
+        { name: "Stocktakes", href: "/inventory/stocktakes" },
+        { name: "Labels", href: "/inventory/labels" },
+      ]
+    },
     { 
       name: "Customers", 
       icon: FaUsers,
@@ -33,6 +46,8 @@ const DashboardLayout: React.FC = () => {
         { name: "Customer Ledger", href: "/customers/ledger" },
       ]
     },
+    { name: "Suppliers", href: "/suppliers", icon: FaTruck },
+    { name: "Purchases", href: "/purchases", icon: FaClipboardList },
     { name: "Sales", href: "/sales", icon: FaShoppingCart },
     { 
       name: "Reports", 
@@ -67,9 +82,9 @@ const DashboardLayout: React.FC = () => {
   };
 
   return (
-    <div className="h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 flex overflow-hidden">
+    <div className="h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 flex overflow-hidden print:block print:h-auto print:overflow-visible print:bg-none">
       {/* Sidebar for Desktop */}
-      <aside className="hidden md:flex flex-col w-64 bg-white border-r-2 border-amber-200 shadow-lg">
+      <aside className="hidden md:flex flex-col w-64 bg-white border-r-2 border-amber-200 shadow-lg print:hidden">
         <div className="h-16 flex items-center justify-center px-6 border-b-2 border-amber-200 bg-linear-to-r from-amber-100 to-orange-100 shrink-0">
           <h1 className="text-xl font-bold text-gray-800">
             Inventory<span className="text-amber-600">App</span>
@@ -172,9 +187,9 @@ const DashboardLayout: React.FC = () => {
       </aside>
 
       {/* Main Content */}
-      <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
+      <div className="flex-1 flex flex-col min-w-0 overflow-hidden print:overflow-visible">
         {/* Mobile Header */}
-        <header className="md:hidden flex items-center justify-between h-16 px-4 bg-white border-b-2 border-amber-200 shadow-sm shrink-0">
+        <header className="md:hidden flex items-center justify-between h-16 px-4 bg-white border-b-2 border-amber-200 shadow-sm shrink-0 print:hidden">
           <h1 className="text-lg font-bold text-gray-800">
             Inventory<span className="text-amber-600">App</span>
           </h1>
@@ -312,7 +327,7 @@ const DashboardLayout: React.FC = () => {
           </div>
         )}
 
-        <main className="flex-1 overflow-auto focus:outline-none">
+        <main className="flex-1 overflow-auto focus:outline-none print:overflow-visible">
           <Outlet />
         </main>
       </div>
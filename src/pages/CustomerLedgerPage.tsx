@@ -5,6 +5,7 @@ import type { Customer } from "../types/customer.types";
 import type { Sale } from "../types/sale.types";
 import type { Item } from "../types/item.types";
 import { itemService } from "../services/itemService";
+import { formatQuantity } from "../utils/units";
 
 const CustomerLedgerPage: React.FC = () => {
   const [customers, setCustomers] = useState<Customer[]>([]);
@@ -27,6 +28,11 @@ const CustomerLedgerPage: React.FC = () => {
     return sale.item.name;
   };
 
+  const getItemUnit = (sale: Sale): Item["unit"] =>
+    typeof sale.item === "string"
+      ? items.find((i) => i._id === sale.item)?.unit
+      : sale.item.unit;
+
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     if (Number.isNaN(date.getTime())) return dateString;
@@ -38,8 +44,13 @@ const CustomerLedgerPage: React.FC = () => {
       setIsLoading(true);
       setError(null);
       const [customersRes, itemsRes] = await Promise.all([
-        customerService.getCustomers({ page: 1, pageSize: 200 }),
-        itemService.getItems({ page: 1, pageSize: 200 }),
+        // The ledger is history, so archived records are included
+        customerService.getCustomers({
+          page: 1,
+          pageSize: 200,
+          archived: "include",
+        }),
+        itemService.getItems({ page: 1, pageSize: 200, archived: "include" }),
       ]);
       setCustomers(Array.isArray(customersRes.data) ? customersRes.data : []);
       setItems(Array.isArray(itemsRes.data) ? itemsRes.data : []);
@@ -116,6 +127,7 @@ const CustomerLedgerPage: React.FC = () => {
                 {customers.map((customer) => (
                   <option key={customer._id} value={customer._id}>
                     {customer.name} ({customer.mobile})
+                    {customer.archivedAt ? " · Archived" : ""}
                   </option>
                 ))}
               </select>
@@ -227,10 +239,13 @@ const CustomerLedgerPage: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
                         {getItemName(sale)}
+                        {sale.variantLabel && (
+                          <span className="text-gray-400"> · {sale.variantLabel}</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-sm font-medium text-gray-800 text-right whitespace-nowrap">
                         <span className="inline-flex items-center px-3 py-1 rounded-full bg-amber-100 text-amber-800 font-semibold">
-                          {sale.quantity}
+                          {formatQuantity(sale.quantity, getItemUnit(sale))}
                         </span>
                       </td>
                       <td className="px-6 py-4 text-sm font-bold text-gray-800 text-right whitespace-nowrap">
@@ -3,9 +3,14 @@ import {
   customerService,
   type CustomerPayload,
   type CustomerListResponse,
+  type CustomerSortField,
 } from "../services/customerService";
 import type { Customer } from "../types/customer.types";
 import { AxiosError } from "axios";
+import ExportButtons from "../components/ExportButtons";
+import SortableHeader from "../components/SortableHeader";
+import { toggleSort, type ListSort } from "../utils/sorting";
+import { exportList, type ExportFormat } from "../utils/listExport";
 
 type Mode = "create" | "edit";
 
@@ -25,6 +30,8 @@ const emptyCustomerForm: CustomerFormState = {
 const CustomersPage: React.FC = () => {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [search, setSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [sort, setSort] = useState<ListSort<CustomerSortField>>();
   const [debounceTimer, setDebounceTimer] = useState<number | undefined>();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -44,13 +51,17 @@ const CustomersPage: React.FC = () => {
 
   const loadCustomers = async (
     searchText?: string,
-    pageParam?: number
+    pageParam?: number,
+    archivedParam: boolean = showArchived,
+    sortParam: ListSort<CustomerSortField> | undefined = sort
   ): Promise<void> => {
     try {
       setIsLoading(true);
       setError(null);
       const response = await customerService.getCustomers({
         search: searchText,
+        archived: archivedParam ? "only" : undefined,
+        ...sortParam,
         page: pageParam ?? page,
         pageSize: meta.pageSize,
       });
@@ -155,21 +166,50 @@ const CustomersPage: React.FC = () => {
     });
   };
 
-  const handleDelete = async (id: string | undefined): Promise<void> => {
+  const handleArchive = async (id: string | undefined): Promise<void> => {
     if (!id) return;
     const confirmed = window.confirm(
-      "Are you sure you want to delete this customer?"
+      "Archive this customer? They will no longer be offered on new sales, but their ledger is kept."
     );
     if (!confirmed) return;
 
     try {
-      await customerService.deleteCustomer(id);
+      await customerService.archiveCustomer(id);
+      if (form.id === id) handleCancelEdit();
       void loadCustomers(search.trim() !== "" ? search : undefined, page);
     } catch {
-      setError("Failed to delete customer. Please try again.");
+      setError("Failed to archive customer. Please try again.");
     }
   };
 
+  const handleRestore = async (id: string | undefined): Promise<void> => {
+    if (!id) return;
+    try {
+      await customerService.restoreCustomer(id);
+      void loadCustomers(search.trim() !== "" ? search : undefined, page);
+    } catch {
+      setError("Failed to restore customer. Please try again.");
+    }
+  };
+
+  const handleArchivedToggle = (archived: boolean): void => {
+    setShowArchived(archived);
+    setPage(1);
+    void loadCustomers(search.trim() !== "" ? search : undefined, 1, archived);
+  };
+
+  const handleSort = (field: CustomerSortField): void => {
+    const nextSort = toggleSort(sort, field);
+    setSort(nextSort);
+    setPage(1);
+    void loadCustomers(
+      search.trim() !== "" ? search : undefined,
+      1,
+      showArchived,
+      nextSort
+    );
+  };
+
   const handleCancelEdit = (): void => {
     setMode("create");
     setForm(emptyCustomerForm);
@@ -177,6 +217,29 @@ const CustomersPage: React.FC = () => {
     setError(null);
   };
 
+  const handleExport = async (format: ExportFormat): Promise<void> => {
+    try {
+      const allCustomers = await customerService.getAllCustomers({
+        search: search.trim() !== "" ? search : undefined,
+        archived: showArchived ? "only" : undefined,
+        ...sort,
+      });
+      exportList(
+        allCustomers,
+        [
+          { key: "name", header: "Name", value: (c) => c.name },
+          { key: "mobile", header: "Mobile", value: (c) => c.mobile },
+          { key: "address", header: "Address", value: (c) => c.address },
+          { key: "createdAt", header: "Created", value: (c) => c.createdAt },
+        ],
+        "customers",
+        format
+      );
+    } catch {
+      setError("Failed to export customers. Please try again.");
+    }
+  };
+
   return (
     <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -335,9 +398,28 @@ const CustomersPage: React.FC = () => {
         {/* Table */}
         <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
           <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex items-center justify-between">
-            <h2 className="text-xl font-semibold text-gray-800">
-              Customers List
-            </h2>
+            <div className="flex items-center gap-4">
+              <h2 className="text-xl font-semibold text-gray-800">
+                Customers List
+              </h2>
+              <div className="inline-flex rounded-lg border-2 border-amber-300 overflow-hidden">
+                {[false, true].map((archived) => (
+                  <button
+                    key={String(archived)}
+                    type="button"
+                    onClick={() => handleArchivedToggle(archived)}
+                    className={`px-3 py-1.5 text-xs font-semibold transition ${
+                      showArchived === archived
+                        ? "bg-amber-500 text-white"
+                        : "bg-white text-gray-700 hover:bg-amber-50"
+                    }`}
+                  >
+                    {archived ? "Archived" : "Active"}
+                  </button>
+                ))}
+              </div>
+              <ExportButtons onExport={handleExport} />
+            </div>
             {isLoading && (
               <span className="text-sm text-gray-600 flex items-center gap-2">
                 <svg
@@ -367,15 +449,23 @@ const CustomersPage: React.FC = () => {
             <table className="min-w-full divide-y-2 divide-amber-200">
               <thead className="bg-linear-to-r from-amber-50 to-orange-50">
                 <tr>
-                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
-                    Name
-                  </th>
+                  <SortableHeader
+                    label="Name"
+                    field="name"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide"
+                  />
                   <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
                     Address
                   </th>
-                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
-                    Mobile
-                  </th>
+                  <SortableHeader
+                    label="Mobile"
+                    field="mobile"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide"
+                  />
                   <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
                     Actions
                   </th>
@@ -425,44 +515,68 @@ const CustomersPage: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 text-right whitespace-nowrap">
                         <div className="flex items-center justify-end gap-2">
-                          <button
-                            onClick={() => handleEdit(customer)}
-                            className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-amber-300 text-xs font-semibold text-gray-700 bg-amber-50 hover:bg-amber-100 transition-all"
-                          >
-                            <svg
-                              className="w-4 h-4 mr-1"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
-                            >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth={2}
-                                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                              />
-                            </svg>
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleDelete(customer._id)}
-                            className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-all"
-                          >
-                            <svg
-                              className="w-4 h-4 mr-1"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
+                          {customer.archivedAt ? (
+                            <button
+                              onClick={() => handleRestore(customer._id)}
+                              className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-green-300 text-xs font-semibold text-green-700 bg-green-50 hover:bg-green-100 transition-all"
                             >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth={2}
-                                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                              />
-                            </svg>
-                            Delete
-                          </button>
+                              <svg
+                                className="w-4 h-4 mr-1"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                                />
+                              </svg>
+                              Restore
+                            </button>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => handleEdit(customer)}
+                                className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-amber-300 text-xs font-semibold text-gray-700 bg-amber-50 hover:bg-amber-100 transition-all"
+                              >
+                                <svg
+                                  className="w-4 h-4 mr-1"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                                  />
+                                </svg>
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleArchive(customer._id)}
+                                className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-all"
+                              >
+                                <svg
+                                  className="w-4 h-4 mr-1"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"
+                                  />
+                                </svg>
+                                Archive
+                              </button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -0,0 +1,661 @@
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { AxiosError } from "axios";
+import { itemService } from "../services/itemService";
+import { saleService } from "../services/saleService";
+import { stockMovementService } from "../services/stockMovementService";
+import { categoryService } from "../services/categoryService";
+import { supplierService } from "../services/supplierService";
+import { locationService } from "../services/locationService";
+import StockAdjustmentDialog from "../components/StockAdjustmentDialog";
+import PriceHistoryDialog from "../components/PriceHistoryDialog";
+import UnitsSoldChart from "../components/UnitsSoldChart";
+import type { Item } from "../types/item.types";
+import type { Category } from "../types/category.types";
+import type { Supplier } from "../types/supplier.types";
+import type { Location } from "../types/location.types";
+import type { Sale } from "../types/sale.types";
+import type {
+  StockMovement,
+  StockMovementType,
+} from "../types/stockMovement.types";
+import { formatQuantity } from "../utils/units";
+import { formatMargin, marginPercent } from "../utils/margin";
+import { formatTaxRate, netPrice } from "../utils/tax";
+import { getLocationId, isBelowReorderLevel } from "../utils/stock";
+import { variantLabel } from "../utils/variants";
+import { formatExpiry, isExpired, sortLotsByExpiry } from "../utils/lots";
+import {
+  bundleAvailability,
+  componentItemId,
+  isBundle,
+  resolveComponentItem,
+} from "../utils/bundles";
+import {
+  monthlyQuantities,
+  seriesStartDate,
+  type SeriesPoint,
+} from "../utils/salesSeries";
+
+const CHART_MONTHS = 12;
+const RECENT_SALES_COUNT = 10;
+const MOVEMENTS_PAGE_SIZE = 10;
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receive: "Received",
+  damage: "Written off",
+  correction: "Correction",
+  sale: "Sale",
+};
+
+const formatDate = (dateString?: string): string => {
+  if (!dateString) return "-";
+  const date = new Date(dateString);
+  if (Number.isNaN(date.getTime())) return dateString;
+  return date.toLocaleDateString();
+};
+
+const ItemDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [item, setItem] = useState<Item | null>(null);
+  // Stock behind a bundle's components
+  const [componentItems, setComponentItems] = useState<Item[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [recentSales, setRecentSales] = useState<Sale[]>([]);
+  const [series, setSeries] = useState<SeriesPoint[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [movementPage, setMovementPage] = useState(1);
+  const [movementPages, setMovementPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [isPricing, setIsPricing] = useState(false);
+
+  const loadItem = async (): Promise<void> => {
+    if (!id) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [itemRes, salesRes, chartSales] = await Promise.all([
+        itemService.getItemById(id),
+        saleService.getSales({ item: id, page: 1, pageSize: RECENT_SALES_COUNT }),
+        saleService.getAllSales({
+          item: id,
+          dateFrom: seriesStartDate(CHART_MONTHS),
+        }),
+      ]);
+      setItem(itemRes);
+      setComponentItems(
+        isBundle(itemRes)
+          ? await Promise.all(
+              (itemRes.components ?? []).flatMap((component) => {
+                const componentId = componentItemId(component);
+                return componentId ? [itemService.getItemById(componentId)] : [];
+              })
+            )
+          : []
+      );
+      setRecentSales(Array.isArray(salesRes.data) ? salesRes.data : []);
+      setSeries(monthlyQuantities(chartSales, CHART_MONTHS));
+    } catch (err: unknown) {
+      let message = "Failed to load item. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadMovements = async (page: number): Promise<void> => {
+    if (!id) return;
+    try {
+      const response = await stockMovementService.getMovements({
+        item: id,
+        page,
+        pageSize: MOVEMENTS_PAGE_SIZE,
+      });
+      setMovements(response.data);
+      setMovementPages(Math.max(1, response.meta.totalPages));
+    } catch {
+      setError("Failed to load stock history.");
+    }
+  };
+
+  useEffect(() => {
+    void loadItem();
+    setMovementPage(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  useEffect(() => {
+    void loadMovements(movementPage);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, movementPage]);
+
+  useEffect(() => {
+    // Names for references the backend returns unpopulated
+    Promise.all([
+      categoryService.getCategories({ page: 1, pageSize: 200 }),
+      supplierService.getSuppliers({ page: 1, pageSize: 200 }),
+      locationService.getLocations({ page: 1, pageSize: 200 }),
+    ])
+      .then(([categoriesRes, suppliersRes, locationsRes]) => {
+        setCategories(categoriesRes.data);
+        setSuppliers(suppliersRes.data);
+        setLocations(locationsRes.data);
+      })
+      .catch(() => setError("Failed to load lookups."));
+  }, []);
+
+  const getCategoryName = (value: Item): string | undefined => {
+    if (!value.category) return undefined;
+    if (typeof value.category === "string") {
+      return categories.find((c) => c._id === value.category)?.name;
+    }
+    return value.category.name;
+  };
+
+  const getSupplierName = (value: Item): string | undefined => {
+    if (!value.preferredSupplier) return undefined;
+    if (typeof value.preferredSupplier === "string") {
+      return suppliers.find((s) => s._id === value.preferredSupplier)?.name;
+    }
+    return value.preferredSupplier.name;
+  };
+
+  const getLocationName = (location?: string | Location): string => {
+    if (!location) return "-";
+    if (typeof location !== "string") return location.name;
+    return locations.find((l) => l._id === location)?.name ?? location;
+  };
+
+  const handleStockSaved = () => {
+    setIsAdjusting(false);
+    void loadItem();
+    if (movementPage === 1) void loadMovements(1);
+    else setMovementPage(1);
+  };
+
+  const handlePricesClosed = () => {
+    setIsPricing(false);
+    // A change scheduled for today may already have been applied
+    void loadItem();
+  };
+
+  if (!item) {
+    return (
+      <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 p-4 md:p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <Link
+            to="/inventory"
+            className="text-sm font-semibold text-amber-700 hover:text-amber-900"
+          >
+            ← Back to Items
+          </Link>
+          {error ? (
+            <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg shadow-sm text-sm">
+              {error}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {isLoading ? "Loading..." : "Item not found."}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const margin =
+    item.costPrice !== undefined
+      ? marginPercent(netPrice(item.price, item), item.costPrice)
+      : null;
+  const bundle = isBundle(item);
+  // Bundles hold no stock of their own; show what their components make up
+  const stockQuantity = bundle
+    ? bundleAvailability(item, componentItems)
+    : item.quantity;
+  const lowStock = isBelowReorderLevel({
+    quantity: stockQuantity,
+    reorderLevel: item.reorderLevel,
+  });
+  const lots = sortLotsByExpiry(item.lots ?? []);
+
+  const attributes: { label: string; value: React.ReactNode }[] = [
+    { label: "SKU", value: item.sku || "-" },
+    { label: "Barcode", value: item.barcode || "-" },
+    { label: "Category", value: getCategoryName(item) ?? "Uncategorized" },
+    {
+      label: "Tags",
+      value: item.tags && item.tags.length > 0 ? item.tags.join(", ") : "-",
+    },
+    { label: "Supplier", value: getSupplierName(item) ?? "-" },
+    { label: "Unit", value: item.unit ?? "pcs" },
+    { label: "Price", value: `₹ ${item.price.toFixed(2)}` },
+    { label: "Tax", value: formatTaxRate(item) },
+    {
+      label: "Cost",
+      value:
+        item.costPrice !== undefined ? `₹ ${item.costPrice.toFixed(2)}` : "-",
+    },
+    { label: "Margin", value: formatMargin(margin) },
+    {
+      label: "Reorder Level",
+      value:
+        item.reorderLevel !== undefined
+          ? formatQuantity(item.reorderLevel, item.unit)
+          : "-",
+    },
+    {
+      label: "Reorder Quantity",
+      value:
+        item.reorderQuantity !== undefined
+          ? formatQuantity(item.reorderQuantity, item.unit)
+          : "-",
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <Link
+          to="/inventory"
+          className="text-sm font-semibold text-amber-700 hover:text-amber-900"
+        >
+          ← Back to Items
+        </Link>
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 flex items-center gap-3">
+              {item.name}
+              {item.archivedAt && (
+                <span className="inline-flex px-3 py-1 rounded-full text-xs font-bold bg-gray-200 text-gray-700">
+                  Archived
+                </span>
+              )}
+            </h1>
+            {item.description && (
+              <p className="text-gray-600 mt-2">{item.description}</p>
+            )}
+          </div>
+          {!item.archivedAt && (
+            <div className="flex items-center gap-3">
+              {!bundle && (
+                <button
+                  type="button"
+                  onClick={() => setIsAdjusting(true)}
+                  className="px-5 py-2.5 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-600 transition-all shadow-md"
+                >
+                  Adjust Stock
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setIsPricing(true)}
+                className="px-5 py-2.5 rounded-xl border-2 border-green-300 bg-green-50 text-sm font-bold text-green-700 hover:bg-green-100 transition-all"
+              >
+                Prices
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg shadow-sm text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Attributes */}
+          <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+            <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+              <h2 className="text-xl font-semibold text-gray-800">Details</h2>
+            </div>
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-3 p-6 text-sm">
+              {attributes.map((attribute) => (
+                <div key={attribute.label}>
+                  <dt className="text-xs font-bold text-gray-500 uppercase tracking-wide">
+                    {attribute.label}
+                  </dt>
+                  <dd className="text-gray-800 font-medium">{attribute.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+
+          {/* Stock */}
+          <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+            <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-800">Stock</h2>
+              <span
+                className={`inline-flex px-3 py-1 rounded-full text-xs font-bold ${
+                  lowStock ? "bg-red-100 text-red-700" : "bg-green-100 text-green-700"
+                }`}
+              >
+                {lowStock ? "Low Stock" : "In Stock"}
+              </span>
+            </div>
+            <div className="p-6 space-y-5 text-sm">
+              <p className="text-3xl font-bold text-gray-800">
+                {formatQuantity(stockQuantity, item.unit)}
+              </p>
+
+              {bundle && (
+                <div>
+                  <p className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                    Components
+                  </p>
+                  <ul className="divide-y divide-amber-100 border-2 border-amber-100 rounded-lg">
+                    {(item.components ?? []).map((component, index) => {
+                      const part = resolveComponentItem(component, componentItems);
+                      return (
+                        <li
+                          key={componentItemId(component) ?? index}
+                          className="px-3 py-2 flex justify-between gap-3"
+                        >
+                          <span className="text-gray-700">
+                            {formatQuantity(component.quantity, part?.unit)} ×{" "}
+                            {part?.name ?? componentItemId(component)}
+                          </span>
+                          <span className="font-semibold text-gray-800">
+                            {part ? formatQuantity(part.quantity, part.unit) : "-"}{" "}
+                            in stock
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+
+              {item.stockByLocation && item.stockByLocation.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                    By Location
+                  </p>
+                  <ul className="divide-y divide-amber-100 border-2 border-amber-100 rounded-lg">
+                    {item.stockByLocation.map((entry) => (
+                      <li
+                        key={getLocationId(entry.location)}
+                        className="px-3 py-2 flex justify-between gap-3"
+                      >
+                        <span className="text-gray-700">
+                          {getLocationName(entry.location)}
+                        </span>
+                        <span className="font-semibold text-gray-800">
+                          {formatQuantity(entry.quantity, item.unit)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {item.variants && item.variants.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                    Variants
+                  </p>
+                  <ul className="divide-y divide-amber-100 border-2 border-amber-100 rounded-lg">
+                    {item.variants.map((variant) => (
+                      <li
+                        key={variant._id ?? variantLabel(variant, item.options)}
+                        className="px-3 py-2 flex justify-between gap-3"
+                      >
+                        <span className="text-gray-700">
+                          {variantLabel(variant, item.options)}
+                          {variant.sku && (
+                            <span className="text-gray-400"> · {variant.sku}</span>
+                          )}
+                        </span>
+                        <span className="font-semibold text-gray-800 whitespace-nowrap">
+                          {formatQuantity(variant.quantity, item.unit)} · ₹{" "}
+                          {variant.price.toFixed(2)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {item.trackLots && (
+                <div>
+                  <p className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                    Lots
+                  </p>
+                  {lots.length === 0 ? (
+                    <p className="text-gray-500">No lots with stock remaining.</p>
+                  ) : (
+                    <ul className="divide-y divide-amber-100 border-2 border-amber-100 rounded-lg">
+                      {lots.map((lot) => (
+                        <li
+                          key={lot._id ?? lot.lotNumber}
+                          className="px-3 py-2 flex justify-between gap-3"
+                        >
+                          <span className="text-gray-700">
+                            {lot.lotNumber}
+                            <span
+                              className={
+                                isExpired(lot) ? "text-red-600" : "text-gray-400"
+                              }
+                            >
+                              {" "}
+                              · {formatExpiry(lot.expiryDate)}
+                            </span>
+                          </span>
+                          <span className="font-semibold text-gray-800">
+                            {formatQuantity(lot.quantity, item.unit)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Units sold chart */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+            <h2 className="text-xl font-semibold text-gray-800">
+              Units Sold · Last {CHART_MONTHS} Months
+            </h2>
+          </div>
+          <div className="p-6">
+            <UnitsSoldChart points={series} unit={item.unit} />
+          </div>
+        </div>
+
+        {/* Recent sales */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+            <h2 className="text-xl font-semibold text-gray-800">Recent Sales</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y-2 divide-amber-200">
+              <thead className="bg-linear-to-r from-amber-50 to-orange-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Date
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Customer
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Location
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Quantity
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Total
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100 bg-white">
+                {recentSales.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                      No sales recorded for this item.
+                    </td>
+                  </tr>
+                ) : (
+                  recentSales.map((sale) => (
+                    <tr
+                      key={sale._id ?? sale.date}
+                      className="hover:bg-amber-50 transition-colors"
+                    >
+                      <td className="px-6 py-4 text-sm font-medium text-gray-800 whitespace-nowrap">
+                        {formatDate(sale.date)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                        {sale.customerName ?? "Cash"}
+                        {sale.variantLabel && (
+                          <span className="text-gray-400"> · {sale.variantLabel}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                        {getLocationName(sale.location)}
+                      </td>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-800 text-right whitespace-nowrap">
+                        {formatQuantity(sale.quantity, item.unit)}
+                      </td>
+                      <td className="px-6 py-4 text-sm font-bold text-gray-800 text-right whitespace-nowrap">
+                        ₹ {sale.totalPrice.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Stock history */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+            <h2 className="text-xl font-semibold text-gray-800">Stock History</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y-2 divide-amber-200">
+              <thead className="bg-linear-to-r from-amber-50 to-orange-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Date
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Type
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Reason
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Location
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Change
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Balance
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100 bg-white">
+                {movements.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                      No stock movements recorded for this item.
+                    </td>
+                  </tr>
+                ) : (
+                  movements.map((movement) => (
+                    <tr
+                      key={movement._id ?? movement.createdAt}
+                      className="hover:bg-amber-50 transition-colors"
+                    >
+                      <td className="px-6 py-4 text-sm font-medium text-gray-800 whitespace-nowrap">
+                        {formatDate(movement.createdAt)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-800 font-semibold whitespace-nowrap">
+                        {MOVEMENT_LABELS[movement.type]}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {movement.reason}
+                        {movement.createdBy && (
+                          <span className="text-gray-400"> · {movement.createdBy}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                        {getLocationName(movement.location)}
+                      </td>
+                      <td
+                        className={`px-6 py-4 text-sm font-bold text-right whitespace-nowrap ${
+                          movement.quantity >= 0 ? "text-green-700" : "text-red-700"
+                        }`}
+                      >
+                        {movement.quantity >= 0 ? "+" : ""}
+                        {formatQuantity(movement.quantity, item.unit)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-800 text-right whitespace-nowrap">
+                        {movement.balanceAfter !== undefined
+                          ? formatQuantity(movement.balanceAfter, item.unit)
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div className="px-6 py-4 border-t-2 border-amber-200 bg-amber-50/50 flex items-center justify-between">
+            <span className="text-sm text-gray-600 font-medium">
+              Page {movementPage} of {movementPages}
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setMovementPage((p) => Math.max(1, p - 1))}
+                disabled={movementPage === 1}
+                className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-150 hover:shadow-md"
+              >
+                ← Prev
+              </button>
+              <button
+                onClick={() =>
+                  setMovementPage((p) => Math.min(movementPages, p + 1))
+                }
+                disabled={movementPage >= movementPages}
+                className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-150 hover:shadow-md"
+              >
+                Next →
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {isAdjusting && (
+        <StockAdjustmentDialog
+          item={item}
+          onClose={() => setIsAdjusting(false)}
+          onSaved={handleStockSaved}
+        />
+      )}
+
+      {isPricing && (
+        <PriceHistoryDialog item={item} onClose={handlePricesClosed} />
+      )}
+    </div>
+  );
+};
+
+export default ItemDetailPage;
@@ -1,32 +1,180 @@
 import React, { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import {
   itemService,
   type ItemPayload,
   type ItemListResponse,
+  type ItemSortField,
+  type ItemStockStatus,
+  type ItemListQuery,
 } from "../services/itemService";
-import type { Item } from "../types/item.types";
+import { categoryService } from "../services/categoryService";
+import { supplierService } from "../services/supplierService";
+import { locationService } from "../services/locationService";
+import { stockMovementService } from "../services/stockMovementService";
+import StockAdjustmentDialog from "../components/StockAdjustmentDialog";
+import PriceHistoryDialog from "../components/PriceHistoryDialog";
+import InlineEditCell from "../components/InlineEditCell";
+import BulkItemActionDialog, {
+  type BulkItemAction,
+} from "../components/BulkItemActionDialog";
+import ItemImportDialog from "../components/ItemImportDialog";
+import VariantMatrixEditor from "../components/VariantMatrixEditor";
+import BundleComponentsEditor from "../components/BundleComponentsEditor";
+import type {
+  Item,
+  ItemComponent,
+  ItemVariant,
+  UnitOfMeasure,
+} from "../types/item.types";
+import type { Category } from "../types/category.types";
+import type { Supplier } from "../types/supplier.types";
+import type { Location } from "../types/location.types";
 import { AxiosError } from "axios";
+import { formatMargin, marginPercent } from "../utils/margin";
+import {
+  defaultLocationId,
+  getLocationId,
+  isBelowReorderLevel,
+} from "../utils/stock";
+import {
+  validateItemFields,
+  validateVariants,
+  type ItemFieldValues,
+} from "../utils/itemValidation";
+import { itemToPayload, variantToPayload } from "../utils/itemPayload";
+import {
+  bundleAvailability,
+  canBeComponent,
+  componentItemId,
+  isBundle,
+  resolveComponentItem,
+  toComponentPayload,
+  validateBundleComponents,
+} from "../utils/bundles";
+import {
+  hasVariants,
+  parseOptionDrafts,
+  toOptionDrafts,
+  variantLabel,
+  type OptionDraft,
+} from "../utils/variants";
+import {
+  DEFAULT_UNIT,
+  UNITS,
+  formatQuantity,
+  quantityStep,
+} from "../utils/units";
+import { formatExpiry, isExpired, sortLotsByExpiry } from "../utils/lots";
+import ExportButtons from "../components/ExportButtons";
+import SortableHeader from "../components/SortableHeader";
+import { toggleSort, type ListSort } from "../utils/sorting";
+import {
+  STOCK_STATUS_LABELS,
+  itemFilterChips,
+  parseItemFilterDraft,
+  removeItemFilter,
+  toItemFilterDraft,
+  type ItemFilterDraft,
+  type ItemFilterKey,
+  type ItemFilters,
+} from "../utils/itemFilters";
+import { exportList, type ExportFormat } from "../utils/listExport";
+import { GST_RATES, formatTaxRate, netPrice } from "../utils/tax";
 
 type Mode = "create" | "edit";
 
 interface ItemFormState {
   id?: string;
   name: string;
+  sku: string;
+  barcode: string;
   description: string;
+  category: string;
+  tags: string;
+  preferredSupplier: string;
+  location: string; // Opening stock location, create mode only
+  unit: UnitOfMeasure;
   quantity: number;
   price: number;
+  costPrice?: number; // Left blank when the cost is not known
+  taxRate: number;
+  priceIncludesTax: boolean;
+  reorderLevel: number;
+  reorderQuantity: number;
+  optionDrafts: OptionDraft[];
+  variants: ItemVariant[];
+  savedVariants: ItemVariant[]; // As loaded for editing, edit mode only
+  trackLots: boolean;
+  // Opening lot for the initial stock, create mode only
+  lotNumber: string;
+  expiryDate: string;
+  isBundle: boolean;
+  components: ItemComponent[];
 }
 
+const NUMERIC_FIELDS: ReadonlyArray<keyof ItemFormState> = [
+  "quantity",
+  "price",
+  "taxRate",
+  "reorderLevel",
+  "reorderQuantity",
+];
+
 const emptyForm: ItemFormState = {
   name: "",
+  sku: "",
+  barcode: "",
   description: "",
+  category: "",
+  tags: "",
+  preferredSupplier: "",
+  location: "",
+  unit: DEFAULT_UNIT,
   quantity: 0,
   price: 0,
+  costPrice: undefined,
+  taxRate: 0,
+  priceIncludesTax: false,
+  reorderLevel: 0,
+  reorderQuantity: 0,
+  optionDrafts: [],
+  variants: [],
+  savedVariants: [],
+  trackLots: false,
+  lotNumber: "",
+  expiryDate: "",
+  isBundle: false,
+  components: [],
 };
 
 const ItemsPage: React.FC = () => {
+  const navigate = useNavigate();
   const [items, setItems] = useState<Item[]>([]);
   const [search, setSearch] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [sort, setSort] = useState<ListSort<ItemSortField>>();
+  const [filters, setFilters] = useState<ItemFilters>({});
+  // Panel inputs are only applied on submit so typing does not refetch
+  const [filterDraft, setFilterDraft] = useState<ItemFilterDraft>(() =>
+    toItemFilterDraft({})
+  );
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+  const [filterError, setFilterError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Extends the selection past the current page to every item the list query matches
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [bulkAction, setBulkAction] = useState<{
+    action: BulkItemAction;
+    items: Item[];
+  } | null>(null);
+  const [isResolvingSelection, setIsResolvingSelection] = useState(false);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  // Active items, used to pick bundle components and work out bundle stock
+  const [stockItems, setStockItems] = useState<Item[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [debounceTimer, setDebounceTimer] = useState<number | undefined>();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -36,6 +184,9 @@ const ItemsPage: React.FC = () => {
   const [form, setForm] = useState<ItemFormState>(emptyForm);
   const [mode, setMode] = useState<Mode>("create");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [adjustingItem, setAdjustingItem] = useState<Item | null>(null);
+  const [pricingItem, setPricingItem] = useState<Item | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [page, setPage] = useState(1);
   const [meta, setMeta] = useState<ItemListResponse["meta"]>({
     page: 1,
@@ -46,17 +197,27 @@ const ItemsPage: React.FC = () => {
 
   const loadItems = async (
     searchText?: string,
-    pageParam?: number
+    pageParam?: number,
+    categoryParam: string = categoryFilter,
+    archivedParam: boolean = showArchived,
+    sortParam: ListSort<ItemSortField> | undefined = sort,
+    filtersParam: ItemFilters = filters
   ): Promise<void> => {
     try {
       setIsLoading(true);
       setError(null);
       const response = await itemService.getItems({
         search: searchText,
+        category: categoryParam || undefined,
+        archived: archivedParam ? "only" : undefined,
+        ...filtersParam,
+        ...sortParam,
         page: pageParam ?? page,
         pageSize: meta.pageSize,
       });
       setItems(response.data);
+      setSelectedIds([]);
+      setSelectAllMatching(false);
       setMeta(response.meta);
     } catch (err) {
       setError("Failed to load items. Please try again.");
@@ -70,6 +231,66 @@ const ItemsPage: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [page]);
 
+  const loadStockItems = (): void => {
+    itemService
+      .getItems({ page: 1, pageSize: 200 })
+      .then((response) => setStockItems(response.data))
+      .catch(() => setError("Failed to load items for bundles."));
+  };
+
+  useEffect(() => {
+    loadStockItems();
+    categoryService
+      .getCategories({ page: 1, pageSize: 200 })
+      .then((response) => setCategories(response.data))
+      .catch(() => setError("Failed to load categories."));
+    supplierService
+      .getSuppliers({ page: 1, pageSize: 200 })
+      .then((response) => setSuppliers(response.data))
+      .catch(() => setError("Failed to load suppliers."));
+    locationService
+      .getLocations({ page: 1, pageSize: 200 })
+      .then((response) => setLocations(response.data))
+      .catch(() => setError("Failed to load locations."));
+  }, []);
+
+  const getCategoryName = (item: Item): string | undefined => {
+    if (!item.category) return undefined;
+    if (typeof item.category === "string") {
+      return categories.find((c) => c._id === item.category)?.name;
+    }
+    return item.category.name;
+  };
+
+  const getSupplierName = (item: Item): string | undefined => {
+    if (!item.preferredSupplier) return undefined;
+    if (typeof item.preferredSupplier === "string") {
+      return suppliers.find((s) => s._id === item.preferredSupplier)?.name;
+    }
+    return item.preferredSupplier.name;
+  };
+
+  const getStockBreakdown = (item: Item): string | undefined =>
+    item.stockByLocation
+      ?.map((entry) => {
+        const id = getLocationId(entry.location);
+        const name =
+          typeof entry.location === "string"
+            ? locations.find((l) => l._id === id)?.name ?? entry.location
+            : entry.location.name;
+        return `${name}: ${formatQuantity(entry.quantity, item.unit)}`;
+      })
+      .join("\n");
+
+  const handleCategoryFilterChange = (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ) => {
+    const value = event.target.value;
+    setCategoryFilter(value);
+    setPage(1);
+    void loadItems(search.trim() !== "" ? search : undefined, 1, value);
+  };
+
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
     setSearch(value);
@@ -84,32 +305,124 @@ const ItemsPage: React.FC = () => {
   };
 
   const handleInputChange = (
-    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    event: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
   ) => {
     const { name, value } = event.target;
     setForm((prev) => ({
       ...prev,
       [name]:
-        name === "quantity" || name === "price" ? Number(value) || 0 : value,
+        // A blank cost means it is not known, which is not the same as free
+        name === "costPrice"
+          ? value === ""
+            ? undefined
+            : Number(value) || 0
+          : NUMERIC_FIELDS.includes(name as keyof ItemFormState)
+          ? Number(value) || 0
+          : value,
     }));
   };
 
+  // Stock of a variant item is the sum of its variants; bundles hold none
+  const formQuantity = form.isBundle
+    ? 0
+    : form.variants.length
+    ? form.variants.reduce((acc, variant) => acc + variant.quantity, 0)
+    : form.quantity;
+
+  // Variants need their own stock, which an existing item only gets through
+  // stock movements, so an item holding stock cannot be split into variants
+  const variantsLockedHint =
+    mode === "edit" && form.savedVariants.length === 0 && form.quantity > 0
+      ? "This item holds stock, so variants cannot be added. Bring its stock to zero first."
+      : undefined;
+
+  // An item's own stock cannot become components, so only an item without
+  // stock can be turned into a bundle
+  const holdsStock =
+    form.quantity > 0 || form.savedVariants.some((variant) => variant.quantity > 0);
+  const bundleLockedHint =
+    mode === "edit" && !form.isBundle && holdsStock
+      ? "This item holds stock, so it cannot become a bundle."
+      : undefined;
+
+  const componentCandidates = stockItems.filter(
+    (item) => canBeComponent(item) && item._id !== form.id
+  );
+
+  // Bundle stock is worked out from the components rather than stored
+  const availableQuantity = (item: Item): number =>
+    isBundle(item) ? bundleAvailability(item, stockItems) : item.quantity;
+
   const validateForm = (): string | null => {
-    const errors: Partial<Record<keyof ItemFormState, string>> = {};
-    if (!form.name.trim()) errors.name = "Name is required.";
-    if (form.name.trim().length < 2)
-      errors.name = "Name must be at least 2 characters.";
-    if (!form.description.trim())
-      errors.description = "Description is required.";
-    else if (form.description.trim().length < 20)
-      errors.description = "Description must be at least 20 characters.";
-    if (form.quantity <= 0)
-      errors.quantity = "Quantity must be greater than 0.";
-    if (form.price <= 0) errors.price = "Price must be greater than 0.";
+    const errors: Partial<Record<keyof ItemFormState, string>> =
+      validateItemFields(
+        { ...form, quantity: formQuantity },
+        mode === "create" && !form.isBundle
+      );
+    if (form.isBundle) {
+      const componentError =
+        mode === "edit" && holdsStock
+          ? "An item that holds stock cannot become a bundle."
+          : validateBundleComponents(form.components, stockItems, form.id);
+      if (componentError) errors.components = componentError;
+    }
+    const variantError = validateVariants(form.variants, form.unit, form.sku);
+    if (variantError) errors.variants = variantError;
+    if (form.trackLots && form.variants.length > 0)
+      errors.variants = "Lot tracking is not available for items with variants.";
+    // Dropping a variant would discard its stock without a stock movement
+    const droppedWithStock = form.savedVariants.filter(
+      (saved) =>
+        saved.quantity > 0 &&
+        !form.variants.some((variant) => variant._id === saved._id)
+    );
+    if (droppedWithStock.length > 0)
+      errors.variants = `Variants that hold stock cannot be removed: ${droppedWithStock
+        .map((variant) => variantLabel(variant))
+        .join(", ")}.`;
+    if (
+      mode === "create" &&
+      form.trackLots &&
+      formQuantity > 0 &&
+      !form.lotNumber.trim()
+    )
+      errors.lotNumber = "Lot number is required for the opening stock.";
     setFormErrors(errors);
     return Object.keys(errors).length ? "invalid" : null;
   };
 
+  const findCodeConflict = async (
+    field: "sku" | "barcode"
+  ): Promise<string | undefined> => {
+    const code = form[field].trim();
+    if (!code) return undefined;
+    const existing = await itemService.lookupItem(code);
+    if (!existing || existing._id === form.id) return undefined;
+    return `Already used by "${existing.name}".`;
+  };
+
+  const findVariantSkuConflict = async (): Promise<string | undefined> => {
+    const skus = form.variants
+      .map((variant) => variant.sku?.trim())
+      .filter((sku): sku is string => Boolean(sku));
+    const matches = await Promise.all(skus.map((sku) => itemService.lookupItem(sku)));
+    const index = matches.findIndex((match) => match && match._id !== form.id);
+    return index === -1
+      ? undefined
+      : `SKU "${skus[index]}" is already used by "${matches[index]?.name}".`;
+  };
+
+  const handleCodeBlur = async (field: "sku" | "barcode"): Promise<void> => {
+    try {
+      const conflict = await findCodeConflict(field);
+      setFormErrors((prev) => ({ ...prev, [field]: conflict }));
+    } catch {
+      // The uniqueness check runs again on submit
+    }
+  };
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     const validationError = validateForm();
@@ -118,11 +431,71 @@ const ItemsPage: React.FC = () => {
     setIsSubmitting(true);
     setError(null);
 
+    try {
+      const [skuConflict, barcodeConflict, variantConflict] = await Promise.all([
+        findCodeConflict("sku"),
+        findCodeConflict("barcode"),
+        findVariantSkuConflict(),
+      ]);
+      if (skuConflict || barcodeConflict || variantConflict) {
+        setFormErrors((prev) => ({
+          ...prev,
+          sku: skuConflict,
+          barcode: barcodeConflict,
+          variants: variantConflict,
+        }));
+        setIsSubmitting(false);
+        return;
+      }
+    } catch {
+      setError("Failed to verify SKU and barcode. Please try again.");
+      setIsSubmitting(false);
+      return;
+    }
+
     const payload: ItemPayload = {
       name: form.name.trim(),
+      sku: form.sku.trim() || undefined,
+      barcode: form.barcode.trim() || undefined,
       description: form.description.trim() || undefined,
-      quantity: form.quantity,
+      category: form.category || undefined,
+      tags: [
+        ...new Set(
+          form.tags
+            .split(",")
+            .map((tag) => tag.trim())
+            .filter(Boolean)
+        ),
+      ],
+      preferredSupplier: form.preferredSupplier || undefined,
+      unit: form.unit,
+      quantity: mode === "create" ? formQuantity : undefined,
+      location:
+        mode === "create"
+          ? form.location || defaultLocationId(locations) || undefined
+          : undefined,
       price: form.price,
+      costPrice: form.costPrice,
+      taxRate: form.taxRate,
+      priceIncludesTax: form.priceIncludesTax,
+      reorderLevel: form.reorderLevel,
+      reorderQuantity: form.reorderQuantity,
+      options: parseOptionDrafts(form.optionDrafts),
+      variants: form.variants.map((variant) => ({
+        ...(mode === "create" ? variant : variantToPayload(variant)),
+        sku: variant.sku?.trim() || undefined,
+      })),
+      trackLots: form.trackLots,
+      kind: form.isBundle ? "bundle" : "standard",
+      components: form.isBundle ? toComponentPayload(form.components) : undefined,
+      lotNumber:
+        mode === "create" && form.trackLots
+          ? form.lotNumber.trim() || undefined
+          : undefined,
+      expiryDate:
+        mode === "create" && form.trackLots
+          ? form.expiryDate || undefined
+          : undefined,
     };
 
     try {
@@ -134,6 +507,7 @@ const ItemsPage: React.FC = () => {
       setForm(emptyForm);
       setMode("create");
       void loadItems(search.trim() !== "" ? search : undefined);
+      loadStockItems();
     } catch (err: unknown) {
       let message = "Failed to save item. Please try again.";
 
@@ -153,28 +527,333 @@ const ItemsPage: React.FC = () => {
     setForm({
       id: item._id,
       name: item.name,
+      sku: item.sku ?? "",
+      barcode: item.barcode ?? "",
       description: item.description ?? "",
+      category:
+        typeof item.category === "string"
+          ? item.category
+          : item.category?._id ?? "",
+      tags: (item.tags ?? []).join(", "),
+      preferredSupplier:
+        typeof item.preferredSupplier === "string"
+          ? item.preferredSupplier
+          : item.preferredSupplier?._id ?? "",
+      location: "",
+      unit: item.unit ?? DEFAULT_UNIT,
       quantity: item.quantity,
       price: item.price,
+      costPrice: item.costPrice,
+      taxRate: item.taxRate ?? 0,
+      priceIncludesTax: Boolean(item.priceIncludesTax),
+      reorderLevel: item.reorderLevel ?? 0,
+      reorderQuantity: item.reorderQuantity ?? 0,
+      optionDrafts: toOptionDrafts(item.options),
+      variants: item.variants ?? [],
+      savedVariants: item.variants ?? [],
+      trackLots: Boolean(item.trackLots),
+      lotNumber: "",
+      expiryDate: "",
+      isBundle: isBundle(item),
+      components: (item.components ?? []).map((component) => ({
+        item: componentItemId(component) ?? "",
+        quantity: component.quantity,
+      })),
     });
   };
 
-  const handleDelete = async (id: string | undefined): Promise<void> => {
+  const handleArchive = async (id: string | undefined): Promise<void> => {
     if (!id) return;
-    const confirmed = window.confirm("Are you sure you want to delete item?");
+    const confirmed = window.confirm(
+      "Archive this item? It will no longer be available for sale, but past sales keep showing it."
+    );
     if (!confirmed) return;
 
     try {
-      await itemService.deleteItem(id);
+      await itemService.archiveItem(id);
+      if (form.id === id) handleCancelEdit();
+      void loadItems(search.trim() !== "" ? search : undefined, page);
+    } catch {
+      setError("Failed to archive item. Please try again.");
+    }
+  };
+
+  const replaceItem = (updated: Item): void =>
+    setItems((prev) => prev.map((i) => (i._id === updated._id ? updated : i)));
+
+  const fieldValuesOf = (item: Item): ItemFieldValues => ({
+    name: item.name,
+    sku: item.sku ?? "",
+    barcode: item.barcode ?? "",
+    description: item.description ?? "",
+    unit: item.unit,
+    quantity: item.quantity,
+    price: item.price,
+    costPrice: item.costPrice,
+    reorderLevel: item.reorderLevel ?? 0,
+    reorderQuantity: item.reorderQuantity ?? 0,
+  });
+
+  const inlineSaveError = (err: unknown): string => {
+    let message = "Failed to save. Please try again.";
+    if (err instanceof AxiosError) {
+      message =
+        err.response?.data?.error || err.response?.data?.message || message;
+    }
+    return message;
+  };
+
+  // Inline edits use the form's rules but only report the edited field, so
+  // an unrelated problem on an older record does not block a quick fix
+  const saveInlineField = async (
+    item: Item,
+    changes: Pick<ItemPayload, "name"> | Pick<ItemPayload, "price">
+  ): Promise<string | undefined> => {
+    if (!item._id) return undefined;
+    const field = "name" in changes ? "name" : "price";
+    const fieldError = validateItemFields(
+      { ...fieldValuesOf(item), ...changes },
+      false
+    )[field];
+    if (fieldError) return fieldError;
+    try {
+      replaceItem(
+        await itemService.updateItem(item._id, { ...itemToPayload(item), ...changes })
+      );
+      return undefined;
+    } catch (err: unknown) {
+      return inlineSaveError(err);
+    }
+  };
+
+  const handleInlineName = (item: Item, value: string) =>
+    saveInlineField(item, { name: value.trim() });
+
+  const handleInlinePrice = (item: Item, value: string) => {
+    const price = Number(value);
+    if (value.trim() === "" || Number.isNaN(price))
+      return Promise.resolve("Enter a valid price.");
+    return saveInlineField(item, { price });
+  };
+
+  // Stock only changes through stock movements, so a new count is posted as
+  // a correction. The typed total is only a count for the whole item when its
+  // stock sits at one location.
+  const handleInlineQuantity = async (
+    item: Item,
+    value: string
+  ): Promise<string | undefined> => {
+    if (!item._id) return undefined;
+    const lockedHint = quantityLockedHint(item);
+    if (lockedHint) return lockedHint;
+    const counted = Number(value);
+    if (value.trim() === "" || Number.isNaN(counted))
+      return "Enter a valid quantity.";
+    if (counted < 0) return "Quantity cannot be negative.";
+    if (counted > 0) {
+      const quantityError = validateItemFields(
+        { ...fieldValuesOf(item), quantity: counted },
+        true
+      ).quantity;
+      if (quantityError) return quantityError;
+    }
+    try {
+      await stockMovementService.correctStock(
+        item._id,
+        counted,
+        "Counted in the items table",
+        {
+          location:
+            item.stockByLocation?.length === 1
+              ? getLocationId(item.stockByLocation[0].location)
+              : undefined,
+        }
+      );
+      replaceItem(await itemService.getItemById(item._id));
+      return undefined;
+    } catch (err: unknown) {
+      return inlineSaveError(err);
+    }
+  };
+
+  const quantityLockedHint = (item: Item): string | undefined => {
+    if (item.archivedAt) return "Restore the item to edit it.";
+    if (isBundle(item)) return "Bundle stock comes from its components.";
+    if (hasVariants(item)) return "Variant stock is changed with Adjust Stock.";
+    if (item.trackLots) return "Lot stock is changed with Adjust Stock.";
+    if ((item.stockByLocation?.length ?? 0) > 1)
+      return "Stock held at several locations is changed with Adjust Stock.";
+    return undefined;
+  };
+
+  const handleRestore = async (id: string | undefined): Promise<void> => {
+    if (!id) return;
+    try {
+      await itemService.restoreItem(id);
       void loadItems(search.trim() !== "" ? search : undefined, page);
     } catch {
-      setError("Failed to delete item. Please try again.");
+      setError("Failed to restore item. Please try again.");
+    }
+  };
+
+  const handleArchivedToggle = (archived: boolean): void => {
+    setShowArchived(archived);
+    setPage(1);
+    void loadItems(
+      search.trim() !== "" ? search : undefined,
+      1,
+      categoryFilter,
+      archived
+    );
+  };
+
+  const handleSort = (field: ItemSortField): void => {
+    const nextSort = toggleSort(sort, field);
+    setSort(nextSort);
+    setPage(1);
+    void loadItems(
+      search.trim() !== "" ? search : undefined,
+      1,
+      categoryFilter,
+      showArchived,
+      nextSort
+    );
+  };
+
+  const applyFilters = (nextFilters: ItemFilters): void => {
+    setFilters(nextFilters);
+    setFilterDraft(toItemFilterDraft(nextFilters));
+    setFilterError(null);
+    setPage(1);
+    void loadItems(
+      search.trim() !== "" ? search : undefined,
+      1,
+      categoryFilter,
+      showArchived,
+      sort,
+      nextFilters
+    );
+  };
+
+  const handleApplyFilters = (event: React.FormEvent): void => {
+    event.preventDefault();
+    const { filters: nextFilters, error: draftError } =
+      parseItemFilterDraft(filterDraft);
+    if (!nextFilters) {
+      setFilterError(draftError ?? "Invalid filters.");
+      return;
+    }
+    applyFilters(nextFilters);
+    setIsFilterPanelOpen(false);
+  };
+
+  const handleRemoveFilter = (key: ItemFilterKey): void => {
+    applyFilters(removeItemFilter(filters, key));
+  };
+
+  const handleFilterDraftChange = (
+    event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = event.target;
+    setFilterDraft((prev) => ({ ...prev, [name]: value }));
+    setFilterError(null);
+  };
+
+  const filterChips = itemFilterChips(filters);
+
+  // The list as currently searched, filtered and sorted, without paging
+  const currentListQuery = (): Omit<ItemListQuery, "page" | "pageSize"> => ({
+    search: search.trim() !== "" ? search : undefined,
+    category: categoryFilter || undefined,
+    archived: showArchived ? "only" : undefined,
+    ...filters,
+    ...sort,
+  });
+
+  const pageIds = items.flatMap((item) => (item._id ? [item._id] : []));
+  const isPageSelected =
+    pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+  const selectedCount = selectAllMatching ? meta.total : selectedIds.length;
+
+  const handleToggleSelected = (id: string): void => {
+    setSelectAllMatching(false);
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
+
+  const handleTogglePage = (): void => {
+    setSelectAllMatching(false);
+    setSelectedIds(isPageSelected ? [] : pageIds);
+  };
+
+  const handleClearSelection = (): void => {
+    setSelectedIds([]);
+    setSelectAllMatching(false);
+  };
+
+  // Resolves to null when the selection could not be loaded
+  const resolveSelectedItems = async (): Promise<Item[] | null> => {
+    if (!selectAllMatching) {
+      return items.filter((item) => item._id && selectedIds.includes(item._id));
+    }
+    try {
+      setIsResolvingSelection(true);
+      return await itemService.getAllItems(currentListQuery());
+    } catch {
+      setError("Failed to load the selected items. Please try again.");
+      return null;
+    } finally {
+      setIsResolvingSelection(false);
+    }
+  };
+
+  const openBulkAction = async (action: BulkItemAction): Promise<void> => {
+    const selected = await resolveSelectedItems();
+    if (selected) setBulkAction({ action, items: selected });
+  };
+
+  const handlePrintLabels = async (): Promise<void> => {
+    const selected = await resolveSelectedItems();
+    if (selected) navigate("/inventory/labels", { state: { items: selected } });
+  };
+
+  const handleExport = async (format: ExportFormat): Promise<void> => {
+    try {
+      const allItems = await itemService.getAllItems(currentListQuery());
+      exportList(
+        allItems,
+        [
+          { key: "name", header: "Name", value: (i) => i.name },
+          { key: "sku", header: "SKU", value: (i) => i.sku },
+          { key: "barcode", header: "Barcode", value: (i) => i.barcode },
+          { key: "category", header: "Category", value: getCategoryName },
+          { key: "tags", header: "Tags", value: (i) => i.tags?.join(", ") },
+          { key: "supplier", header: "Supplier", value: getSupplierName },
+          { key: "description", header: "Description", value: (i) => i.description },
+          { key: "quantity", header: "Quantity", value: (i) => i.quantity },
+          { key: "unit", header: "Unit", value: (i) => i.unit ?? DEFAULT_UNIT },
+          { key: "price", header: "Price", value: (i) => i.price },
+          { key: "costPrice", header: "Cost Price", value: (i) => i.costPrice },
+          { key: "reorderLevel", header: "Reorder Level", value: (i) => i.reorderLevel },
+          {
+            key: "reorderQuantity",
+            header: "Reorder Quantity",
+            value: (i) => i.reorderQuantity,
+          },
+        ],
+        "items",
+        format
+      );
+    } catch {
+      setError("Failed to export items. Please try again.");
     }
   };
 
   const handleCancelEdit = (): void => {
     setMode("create");
     setForm(emptyForm);
+    setFormErrors({});
     setError(null);
   };
 
@@ -206,31 +885,198 @@ const ItemsPage: React.FC = () => {
               </p>
             </div>
 
-            <div className="relative w-full md:w-80">
-              <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                <svg
-                  className="h-5 w-5 text-amber-400"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-                  />
-                </svg>
+            <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto">
+              <select
+                value={categoryFilter}
+                onChange={handleCategoryFilterChange}
+                className="w-full sm:w-48 px-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 text-gray-700"
+              >
+                <option value="">All categories</option>
+                {categories.map((category) => (
+                  <option key={category._id} value={category._id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+              <div className="relative w-full md:w-80">
+                <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                  <svg
+                    className="h-5 w-5 text-amber-400"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                    />
+                  </svg>
+                </div>
+                <input
+                  type="text"
+                  value={search}
+                  onChange={handleSearchChange}
+                  placeholder="Search items..."
+                  className="w-full pl-11 pr-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 placeholder-gray-400"
+                />
               </div>
-              <input
-                type="text"
-                value={search}
-                onChange={handleSearchChange}
-                placeholder="Search items..."
-                className="w-full pl-11 pr-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 placeholder-gray-400"
-              />
+              <button
+                type="button"
+                onClick={() => setIsFilterPanelOpen((open) => !open)}
+                className={`px-5 py-3 rounded-xl border-2 text-sm font-semibold transition-all duration-150 hover:shadow-md whitespace-nowrap ${
+                  isFilterPanelOpen || filterChips.length > 0
+                    ? "border-amber-500 bg-amber-100 text-amber-800"
+                    : "border-amber-300 bg-white text-gray-700 hover:bg-amber-50"
+                }`}
+              >
+                Filters{filterChips.length > 0 ? ` (${filterChips.length})` : ""}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsImportOpen(true)}
+                className="px-5 py-3 rounded-xl border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 transition-all duration-150 hover:shadow-md whitespace-nowrap"
+              >
+                Import CSV
+              </button>
             </div>
           </div>
+
+          {isFilterPanelOpen && (
+            <form
+              onSubmit={handleApplyFilters}
+              className="mt-6 pt-6 border-t-2 border-amber-100 space-y-4"
+            >
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                    Price (₹)
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      name="priceMin"
+                      min={0}
+                      step="0.01"
+                      value={filterDraft.priceMin}
+                      onChange={handleFilterDraftChange}
+                      placeholder="Min"
+                      className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 text-gray-700"
+                    />
+                    <span className="text-gray-400">–</span>
+                    <input
+                      type="number"
+                      name="priceMax"
+                      min={0}
+                      step="0.01"
+                      value={filterDraft.priceMax}
+                      onChange={handleFilterDraftChange}
+                      placeholder="Max"
+                      className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 text-gray-700"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                    Stock Status
+                  </label>
+                  <select
+                    name="stockStatus"
+                    value={filterDraft.stockStatus}
+                    onChange={handleFilterDraftChange}
+                    className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 text-gray-700"
+                  >
+                    <option value="">Any</option>
+                    {(Object.keys(STOCK_STATUS_LABELS) as ItemStockStatus[]).map(
+                      (status) => (
+                        <option key={status} value={status}>
+                          {STOCK_STATUS_LABELS[status]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+                <div className="lg:col-span-2">
+                  <label className="block text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">
+                    Date
+                  </label>
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <select
+                      name="dateField"
+                      value={filterDraft.dateField}
+                      onChange={handleFilterDraftChange}
+                      className="w-full sm:w-36 px-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 text-gray-700"
+                    >
+                      <option value="createdAt">Created</option>
+                      <option value="updatedAt">Updated</option>
+                    </select>
+                    <input
+                      type="date"
+                      name="dateFrom"
+                      value={filterDraft.dateFrom}
+                      onChange={handleFilterDraftChange}
+                      className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 text-gray-700"
+                    />
+                    <span className="text-gray-400 text-center">–</span>
+                    <input
+                      type="date"
+                      name="dateTo"
+                      value={filterDraft.dateTo}
+                      onChange={handleFilterDraftChange}
+                      className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-white/70 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 text-gray-700"
+                    />
+                  </div>
+                </div>
+              </div>
+              {filterError && (
+                <p className="text-sm text-red-600">{filterError}</p>
+              )}
+              <div className="flex items-center justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => applyFilters({})}
+                  className="px-5 py-2.5 rounded-xl border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 transition-all"
+                >
+                  Clear
+                </button>
+                <button
+                  type="submit"
+                  className="px-5 py-2.5 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-bold hover:from-amber-600 hover:to-orange-600 transition-all shadow-md"
+                >
+                  Apply Filters
+                </button>
+              </div>
+            </form>
+          )}
+
+          {filterChips.length > 0 && (
+            <div className="mt-4 flex flex-wrap items-center gap-2">
+              {filterChips.map((chip) => (
+                <span
+                  key={chip.key}
+                  className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-bold bg-amber-100 text-amber-800"
+                >
+                  {chip.label}
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveFilter(chip.key)}
+                    className="text-amber-600 hover:text-amber-900 leading-none"
+                    aria-label={`Remove filter ${chip.label}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              <button
+                type="button"
+                onClick={() => applyFilters({})}
+                className="text-xs font-semibold text-gray-500 hover:text-gray-800 underline"
+              >
+                Clear all
+              </button>
+            </div>
+          )}
         </div>
 
         {error && (
@@ -356,17 +1202,192 @@ const ItemsPage: React.FC = () => {
               <div className="space-y-2">
                 <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
                   <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
-                  Quantity
+                  SKU
                 </label>
                 <input
-                  type="number"
-                  name="quantity"
-                  min={0}
-                  value={form.quantity}
+                  type="text"
+                  name="sku"
+                  value={form.sku}
                   onChange={handleInputChange}
+                  onBlur={() => void handleCodeBlur("sku")}
+                  placeholder="Optional"
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                />
+                {formErrors.sku && (
+                  <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                    <svg
+                      className="w-3 h-3"
+                      fill="currentColor"
+                      viewBox="0 0 20 20"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                    {formErrors.sku}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
+                  Barcode
+                </label>
+                <input
+                  type="text"
+                  name="barcode"
+                  value={form.barcode}
+                  onChange={handleInputChange}
+                  onBlur={() => void handleCodeBlur("barcode")}
+                  placeholder="Scan or type (optional)"
                   className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
-                  required
                 />
+                {formErrors.barcode && (
+                  <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                    <svg
+                      className="w-3 h-3"
+                      fill="currentColor"
+                      viewBox="0 0 20 20"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                    {formErrors.barcode}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-5">
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
+                  Category
+                </label>
+                <select
+                  name="category"
+                  value={form.category}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                >
+                  <option value="">Uncategorised</option>
+                  {categories.map((category) => (
+                    <option key={category._id} value={category._id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
+                  Tags
+                </label>
+                <input
+                  type="text"
+                  name="tags"
+                  value={form.tags}
+                  onChange={handleInputChange}
+                  placeholder="Comma separated, e.g. summer, cotton"
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
+                  Preferred Supplier
+                </label>
+                <select
+                  name="preferredSupplier"
+                  value={form.preferredSupplier}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                >
+                  <option value="">None</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier._id} value={supplier._id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-5">
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
+                  Quantity
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    name="quantity"
+                    min={0}
+                    step={quantityStep(form.unit)}
+                    value={formQuantity}
+                    onChange={handleInputChange}
+                    disabled={
+                      mode === "edit" || form.variants.length > 0 || form.isBundle
+                    }
+                    className="w-full min-w-0 px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed"
+                    required
+                  />
+                  <select
+                    name="unit"
+                    value={form.unit}
+                    onChange={handleInputChange}
+                    // Stock, history and sales are recorded in this unit
+                    disabled={mode === "edit"}
+                    title="Unit of measure"
+                    className="px-3 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200 disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {UNITS.map((unit) => (
+                      <option key={unit.value} value={unit.value}>
+                        {unit.value}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {form.isBundle ? (
+                  <p className="text-xs text-gray-500">
+                    Bundle stock is worked out from its components.
+                  </p>
+                ) : (
+                  mode === "edit" && (
+                    <p className="text-xs text-gray-500">
+                      Use Adjust Stock in the list to change quantity.
+                    </p>
+                  )
+                )}
+                {mode === "create" && form.variants.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Total of the variant quantities below.
+                  </p>
+                )}
+                {mode === "create" && !form.isBundle && locations.length > 0 && (
+                  <select
+                    name="location"
+                    value={form.location || defaultLocationId(locations)}
+                    onChange={handleInputChange}
+                    title="Location for the opening stock"
+                    className="w-full px-3 py-2 border-2 border-amber-200 rounded-xl bg-amber-50/50 text-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                  >
+                    {locations.map((location) => (
+                      <option key={location._id} value={location._id}>
+                        {`Stock at ${location.name}`}
+                      </option>
+                    ))}
+                  </select>
+                )}
                 {formErrors.quantity && (
                   <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
                     <svg
@@ -383,12 +1404,69 @@ const ItemsPage: React.FC = () => {
                     {formErrors.quantity}
                   </p>
                 )}
+                <label className="inline-flex items-center gap-2 text-xs font-semibold text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={form.isBundle}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        isBundle: e.target.checked,
+                        trackLots: false,
+                        optionDrafts: [],
+                        variants: [],
+                      }))
+                    }
+                    disabled={Boolean(bundleLockedHint)}
+                    title={bundleLockedHint}
+                    className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400 disabled:opacity-60"
+                  />
+                  Bundle of other items
+                </label>
+                {!form.isBundle && (
+                  <label className="inline-flex items-center gap-2 text-xs font-semibold text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={form.trackLots}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, trackLots: e.target.checked }))
+                      }
+                      // Existing stock is not in any lot, so this is set on creation
+                      disabled={mode === "edit"}
+                      className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400 disabled:opacity-60"
+                    />
+                    Track lots and expiry dates
+                  </label>
+                )}
+                {mode === "create" && form.trackLots && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      name="lotNumber"
+                      value={form.lotNumber}
+                      onChange={handleInputChange}
+                      placeholder="Lot number"
+                      className="w-full min-w-0 px-3 py-2 border-2 border-amber-200 rounded-xl bg-amber-50/50 text-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                    />
+                    <input
+                      type="date"
+                      name="expiryDate"
+                      value={form.expiryDate}
+                      onChange={handleInputChange}
+                      title="Expiry date of the opening lot"
+                      className="w-full min-w-0 px-3 py-2 border-2 border-amber-200 rounded-xl bg-amber-50/50 text-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                    />
+                  </div>
+                )}
+                {formErrors.lotNumber && (
+                  <p className="text-xs text-red-600">{formErrors.lotNumber}</p>
+                )}
               </div>
 
               <div className="space-y-2">
                 <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
                   <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
-                  Price (₹)
+                  Price (₹ / {form.unit})
                 </label>
                 <input
                   type="number"
@@ -416,9 +1494,186 @@ const ItemsPage: React.FC = () => {
                     {formErrors.price}
                   </p>
                 )}
+                <div className="flex items-center gap-2">
+                  <select
+                    name="taxRate"
+                    value={form.taxRate}
+                    onChange={handleInputChange}
+                    title="GST rate"
+                    className="px-3 py-2 border-2 border-amber-200 rounded-xl bg-amber-50/50 text-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                  >
+                    {(GST_RATES.includes(form.taxRate)
+                      ? GST_RATES
+                      : [...GST_RATES, form.taxRate].sort((a, b) => a - b)
+                    ).map((rate) => (
+                      <option key={rate} value={rate}>
+                        GST {rate}%
+                      </option>
+                    ))}
+                  </select>
+                  <label className="inline-flex items-center gap-2 text-xs font-semibold text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={form.priceIncludesTax}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          priceIncludesTax: e.target.checked,
+                        }))
+                      }
+                      className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400"
+                    />
+                    Price includes GST
+                  </label>
+                </div>
+                {formErrors.taxRate && (
+                  <p className="text-xs text-red-600">{formErrors.taxRate}</p>
+                )}
+                {mode === "edit" && (
+                  <p className="text-xs text-gray-500">
+                    Price changes are kept in the item's price history.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
+                  Cost Price (₹)
+                </label>
+                <input
+                  type="number"
+                  name="costPrice"
+                  min={0}
+                  step="0.01"
+                  value={form.costPrice ?? ""}
+                  onChange={handleInputChange}
+                  placeholder="Not recorded"
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                />
+                {formErrors.costPrice ? (
+                  <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                    <svg
+                      className="w-3 h-3"
+                      fill="currentColor"
+                      viewBox="0 0 20 20"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                    {formErrors.costPrice}
+                  </p>
+                ) : (
+                  form.price > 0 &&
+                  form.costPrice !== undefined && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Margin{" "}
+                      {formatMargin(marginPercent(netPrice(form.price, form), form.costPrice))}{" "}
+                      · Profit ₹ {(netPrice(form.price, form) - form.costPrice).toFixed(2)}{" "}
+                      per unit before GST
+                    </p>
+                  )
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
+                  Reorder Level
+                </label>
+                <input
+                  type="number"
+                  name="reorderLevel"
+                  min={0}
+                  step={quantityStep(form.unit)}
+                  value={form.reorderLevel}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                />
+                <p className="text-xs text-gray-500">Flag the item as low stock at or below this quantity.</p>
+                {formErrors.reorderLevel && (
+                  <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                    <svg
+                      className="w-3 h-3"
+                      fill="currentColor"
+                      viewBox="0 0 20 20"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                    {formErrors.reorderLevel}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
+                  Reorder Quantity
+                </label>
+                <input
+                  type="number"
+                  name="reorderQuantity"
+                  min={0}
+                  step={quantityStep(form.unit)}
+                  value={form.reorderQuantity}
+                  onChange={handleInputChange}
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50/50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all duration-200"
+                />
+                <p className="text-xs text-gray-500">Suggested quantity to order when restocking.</p>
+                {formErrors.reorderQuantity && (
+                  <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                    <svg
+                      className="w-3 h-3"
+                      fill="currentColor"
+                      viewBox="0 0 20 20"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z"
+                        clipRule="evenodd"
+                      />
+                    </svg>
+                    {formErrors.reorderQuantity}
+                  </p>
+                )}
               </div>
             </div>
 
+            {form.isBundle ? (
+              <BundleComponentsEditor
+                components={form.components}
+                candidates={componentCandidates}
+                error={formErrors.components}
+                onChange={(components) =>
+                  setForm((prev) => ({ ...prev, components }))
+                }
+              />
+            ) : (
+              <VariantMatrixEditor
+                optionDrafts={form.optionDrafts}
+                variants={form.variants}
+                savedVariants={form.savedVariants}
+                lockedHint={variantsLockedHint}
+                stockEditable={mode === "create"}
+                unit={form.unit}
+                defaultPrice={form.price}
+                defaultCostPrice={form.costPrice}
+                error={formErrors.variants}
+                onChange={(optionDrafts, variants) =>
+                  setForm((prev) => ({ ...prev, optionDrafts, variants }))
+                }
+              />
+            )}
+
             <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3 pt-2">
               <button
                 type="submit"
@@ -469,7 +1724,84 @@ const ItemsPage: React.FC = () => {
               <h2 className="text-lg md:text-xl font-bold text-gray-800">
                 Items List
               </h2>
+              <div className="inline-flex rounded-lg border-2 border-amber-300 overflow-hidden">
+                {[false, true].map((archived) => (
+                  <button
+                    key={String(archived)}
+                    type="button"
+                    onClick={() => handleArchivedToggle(archived)}
+                    className={`px-3 py-1.5 text-xs font-semibold transition ${
+                      showArchived === archived
+                        ? "bg-amber-500 text-white"
+                        : "bg-white text-gray-700 hover:bg-amber-50"
+                    }`}
+                  >
+                    {archived ? "Archived" : "Active"}
+                  </button>
+                ))}
+              </div>
+              <ExportButtons onExport={handleExport} />
             </div>
+            {selectedCount > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="font-semibold text-gray-700">
+                  {selectedCount} selected
+                </span>
+                {isPageSelected && !selectAllMatching && meta.total > pageIds.length && (
+                  <button
+                    type="button"
+                    onClick={() => setSelectAllMatching(true)}
+                    className="font-semibold text-amber-700 hover:text-amber-900 underline"
+                  >
+                    Select all {meta.total} matching
+                  </button>
+                )}
+                {showArchived ? (
+                  <button
+                    type="button"
+                    onClick={() => openBulkAction("restore")}
+                    disabled={isResolvingSelection}
+                    className="px-3 py-1.5 rounded-lg border-2 border-emerald-300 bg-emerald-50 font-semibold text-emerald-700 hover:bg-emerald-100 disabled:opacity-50 transition-all"
+                  >
+                    Restore
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => openBulkAction("price")}
+                      disabled={isResolvingSelection}
+                      className="px-3 py-1.5 rounded-lg border-2 border-green-300 bg-green-50 font-semibold text-green-700 hover:bg-green-100 disabled:opacity-50 transition-all"
+                    >
+                      Adjust Prices
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handlePrintLabels}
+                      disabled={isResolvingSelection}
+                      className="px-3 py-1.5 rounded-lg border-2 border-amber-300 bg-amber-50 font-semibold text-amber-700 hover:bg-amber-100 disabled:opacity-50 transition-all"
+                    >
+                      Print Labels
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => openBulkAction("archive")}
+                      disabled={isResolvingSelection}
+                      className="px-3 py-1.5 rounded-lg border-2 border-red-300 bg-red-50 font-semibold text-red-600 hover:bg-red-100 disabled:opacity-50 transition-all"
+                    >
+                      Archive
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={handleClearSelection}
+                  className="font-semibold text-gray-500 hover:text-gray-800 underline"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
             {isLoading && (
               <div className="flex items-center gap-2 text-xs text-amber-600 font-medium">
                 <svg
@@ -500,17 +1832,54 @@ const ItemsPage: React.FC = () => {
             <table className="min-w-full divide-y divide-amber-200 text-sm">
               <thead className="bg-linear-to-r from-amber-50 to-orange-50">
                 <tr>
+                  <th className="pl-4 md:pl-6 py-4 w-8">
+                    <input
+                      type="checkbox"
+                      checked={isPageSelected}
+                      onChange={handleTogglePage}
+                      aria-label="Select all items on this page"
+                      className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400"
+                    />
+                  </th>
+                  <SortableHeader
+                    label="Name"
+                    field="name"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-4 md:px-6 py-4 text-left font-bold text-gray-700 uppercase tracking-wider text-xs"
+                  />
+                  <SortableHeader
+                    label="SKU / Barcode"
+                    field="sku"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-4 md:px-6 py-4 text-left font-bold text-gray-700 uppercase tracking-wider text-xs"
+                  />
                   <th className="px-4 md:px-6 py-4 text-left font-bold text-gray-700 uppercase tracking-wider text-xs">
-                    Name
+                    Category
                   </th>
                   <th className="px-4 md:px-6 py-4 text-left font-bold text-gray-700 uppercase tracking-wider text-xs">
                     Description
                   </th>
+                  <SortableHeader
+                    label="Quantity"
+                    field="quantity"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-4 md:px-6 py-4 text-right font-bold text-gray-700 uppercase tracking-wider text-xs"
+                  />
+                  <SortableHeader
+                    label="Price"
+                    field="price"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-4 md:px-6 py-4 text-right font-bold text-gray-700 uppercase tracking-wider text-xs"
+                  />
                   <th className="px-4 md:px-6 py-4 text-right font-bold text-gray-700 uppercase tracking-wider text-xs">
-                    Quantity
+                    Margin
                   </th>
                   <th className="px-4 md:px-6 py-4 text-right font-bold text-gray-700 uppercase tracking-wider text-xs">
-                    Price
+                    Gross Profit
                   </th>
                   <th className="px-4 md:px-6 py-4 text-right font-bold text-gray-700 uppercase tracking-wider text-xs">
                     Actions
@@ -520,7 +1889,7 @@ const ItemsPage: React.FC = () => {
               <tbody className="divide-y divide-amber-100 bg-white">
                 {items.length === 0 && !isLoading ? (
                   <tr>
-                    <td colSpan={5} className="px-4 py-12 text-center">
+                    <td colSpan={10} className="px-4 py-12 text-center">
                       <div className="flex flex-col items-center gap-3">
                         <div className="w-16 h-16 rounded-full bg-amber-100 flex items-center justify-center">
                           <svg
@@ -549,8 +1918,126 @@ const ItemsPage: React.FC = () => {
                       key={item._id ?? item.name}
                       className="hover:bg-amber-50/50 transition-colors duration-150"
                     >
+                      <td className="pl-4 md:pl-6 py-4">
+                        {item._id && (
+                          <input
+                            type="checkbox"
+                            checked={
+                              selectAllMatching || selectedIds.includes(item._id)
+                            }
+                            onChange={() => handleToggleSelected(item._id as string)}
+                            aria-label={`Select ${item.name}`}
+                            className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400"
+                          />
+                        )}
+                      </td>
                       <td className="px-4 md:px-6 py-4 text-gray-800 font-semibold whitespace-nowrap">
-                        {item.name}
+                        <InlineEditCell
+                          value={item.name}
+                          lockedHint={
+                            item.archivedAt ? "Restore the item to edit it." : undefined
+                          }
+                          onSave={(value) => handleInlineName(item, value)}
+                        >
+                          {item._id ? (
+                            <Link
+                              to={`/inventory/${item._id}`}
+                              className="hover:text-amber-700 hover:underline"
+                            >
+                              {item.name}
+                            </Link>
+                          ) : (
+                            item.name
+                          )}
+                        </InlineEditCell>
+                        {isBundle(item) && (
+                          <div
+                            className="text-xs font-normal text-amber-700"
+                            title={(item.components ?? [])
+                              .map((component) => {
+                                const part = resolveComponentItem(component, stockItems);
+                                return `${formatQuantity(component.quantity, part?.unit)} × ${part?.name ?? componentItemId(component)}`;
+                              })
+                              .join("\n")}
+                          >
+                            Bundle of {item.components?.length ?? 0} items
+                          </div>
+                        )}
+                        {hasVariants(item) && (
+                          <div
+                            className="text-xs font-normal text-amber-700"
+                            title={item.variants
+                              ?.map(
+                                (variant) =>
+                                  `${variantLabel(variant, item.options)}: ${formatQuantity(variant.quantity, item.unit)}`
+                              )
+                              .join("\n")}
+                          >
+                            {item.variants?.length} variants
+                          </div>
+                        )}
+                        {item.trackLots && (item.lots?.length ?? 0) > 0 && (
+                          <div
+                            className={`text-xs font-normal ${
+                              (item.lots ?? []).some(isExpired)
+                                ? "text-red-600"
+                                : "text-amber-700"
+                            }`}
+                            title={sortLotsByExpiry(item.lots ?? [])
+                              .map(
+                                (lot) =>
+                                  `${lot.lotNumber}: ${formatQuantity(lot.quantity, item.unit)}, ${formatExpiry(lot.expiryDate)}`
+                              )
+                              .join("\n")}
+                          >
+                            {item.lots?.length} lots · next expiry{" "}
+                            {formatExpiry(sortLotsByExpiry(item.lots ?? [])[0]?.expiryDate)}
+                          </div>
+                        )}
+                        {getSupplierName(item) && (
+                          <div className="text-xs font-normal text-gray-500">
+                            Supplier: {getSupplierName(item)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 md:px-6 py-4 whitespace-nowrap">
+                        {item.sku || item.barcode ? (
+                          <div className="flex flex-col">
+                            <span className="font-mono text-xs text-gray-800">
+                              {item.sku || "-"}
+                            </span>
+                            {item.barcode && (
+                              <span className="font-mono text-xs text-gray-500">
+                                {item.barcode}
+                              </span>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-gray-400 italic">None</span>
+                        )}
+                      </td>
+                      <td className="px-4 md:px-6 py-4">
+                        <div className="flex flex-col gap-1">
+                          <span className="text-gray-700 whitespace-nowrap">
+                            {getCategoryName(item) ?? (
+                              <span className="text-gray-400 italic">
+                                Uncategorised
+                              </span>
+                            )}
+                          </span>
+                          {item.tags && item.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {item.tags.map((tag) => (
+                                <span
+                                  key={tag}
+                                  className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-amber-100 text-amber-800"
+                                >
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
                       </td>
                       <td className="px-4 md:px-6 py-4 text-gray-600 max-w-xs truncate">
                         {item.description || (
@@ -560,57 +2047,188 @@ const ItemsPage: React.FC = () => {
                         )}
                       </td>
                       <td className="px-4 md:px-6 py-4 text-right whitespace-nowrap">
-                        <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-blue-100 text-blue-800">
-                          {item.quantity}
-                        </span>
+                        <InlineEditCell
+                          value={String(item.quantity)}
+                          type="number"
+                          step={quantityStep(item.unit)}
+                          align="right"
+                          lockedHint={quantityLockedHint(item)}
+                          onSave={(value) => handleInlineQuantity(item, value)}
+                        >
+                          <span
+                            className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold ${
+                              isBelowReorderLevel({
+                                quantity: availableQuantity(item),
+                                reorderLevel: item.reorderLevel,
+                              })
+                                ? "bg-red-100 text-red-800"
+                                : "bg-blue-100 text-blue-800"
+                            }`}
+                            title={
+                              [
+                                item.reorderLevel !== undefined
+                                  ? `Reorder level: ${formatQuantity(item.reorderLevel, item.unit)}`
+                                  : undefined,
+                                getStockBreakdown(item),
+                              ]
+                                .filter(Boolean)
+                                .join("\n") || undefined
+                            }
+                          >
+                            {formatQuantity(availableQuantity(item), item.unit)}
+                          </span>
+                        </InlineEditCell>
                       </td>
                       <td className="px-4 md:px-6 py-4 text-right whitespace-nowrap">
-                        <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-green-100 text-green-800">
-                          ₹ {item.price.toFixed(2)}
-                        </span>
+                        <InlineEditCell
+                          value={String(item.price)}
+                          type="number"
+                          step="0.01"
+                          align="right"
+                          lockedHint={
+                            item.archivedAt ? "Restore the item to edit it." : undefined
+                          }
+                          onSave={(value) => handleInlinePrice(item, value)}
+                        >
+                          <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-green-100 text-green-800">
+                            ₹ {item.price.toFixed(2)}
+                          </span>
+                        </InlineEditCell>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {formatTaxRate(item)}
+                        </div>
+                        {item.costPrice !== undefined && (
+                          <div className="text-xs text-gray-500">
+                            Cost ₹ {item.costPrice.toFixed(2)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 md:px-6 py-4 text-right whitespace-nowrap text-gray-700 font-semibold">
+                        {item.costPrice !== undefined
+                          ? formatMargin(
+                              marginPercent(netPrice(item.price, item), item.costPrice)
+                            )
+                          : "-"}
+                      </td>
+                      <td className="px-4 md:px-6 py-4 text-right whitespace-nowrap text-gray-700">
+                        {item.costPrice !== undefined ? (
+                          <>
+                            ₹ {(netPrice(item.price, item) - item.costPrice).toFixed(2)}
+                            <span className="text-xs text-gray-500"> /unit</span>
+                          </>
+                        ) : (
+                          "-"
+                        )}
                       </td>
                       <td className="px-4 md:px-6 py-4 text-right whitespace-nowrap">
                         <div className="flex items-center justify-end gap-2">
-                          <button
-                            type="button"
-                            onClick={() => handleEdit(item)}
-                            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 border-blue-300 text-xs font-semibold text-blue-700 bg-blue-50 hover:bg-blue-100 transition-all duration-150 hover:shadow-md"
-                          >
-                            <svg
-                              className="w-3 h-3"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
+                          {item.archivedAt ? (
+                            <button
+                              type="button"
+                              onClick={() => handleRestore(item._id)}
+                              className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 border-green-300 text-xs font-semibold text-green-700 bg-green-50 hover:bg-green-100 transition-all duration-150 hover:shadow-md"
                             >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth={2}
-                                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                              />
-                            </svg>
-                            Edit
-                          </button>
-                          <button
-                            type="button"
-                            onClick={() => handleDelete(item._id)}
-                            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-700 bg-red-50 hover:bg-red-100 transition-all duration-150 hover:shadow-md"
-                          >
-                            <svg
-                              className="w-3 h-3"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
-                            >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth={2}
-                                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                              />
-                            </svg>
-                            Delete
-                          </button>
+                              <svg
+                                className="w-3 h-3"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                                />
+                              </svg>
+                              Restore
+                            </button>
+                          ) : (
+                            <>
+                              {!isBundle(item) && (
+                                <button
+                                  type="button"
+                                  onClick={() => setAdjustingItem(item)}
+                                  className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 border-amber-300 text-xs font-semibold text-amber-700 bg-amber-50 hover:bg-amber-100 transition-all duration-150 hover:shadow-md"
+                                >
+                                  <svg
+                                    className="w-3 h-3"
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                  >
+                                    <path
+                                      strokeLinecap="round"
+                                      strokeLinejoin="round"
+                                      strokeWidth={2}
+                                      d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4"
+                                    />
+                                  </svg>
+                                  Adjust Stock
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => handleEdit(item)}
+                                className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 border-blue-300 text-xs font-semibold text-blue-700 bg-blue-50 hover:bg-blue-100 transition-all duration-150 hover:shadow-md"
+                              >
+                                <svg
+                                  className="w-3 h-3"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                                  />
+                                </svg>
+                                Edit
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setPricingItem(item)}
+                                className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 border-green-300 text-xs font-semibold text-green-700 bg-green-50 hover:bg-green-100 transition-all duration-150 hover:shadow-md"
+                              >
+                                <svg
+                                  className="w-3 h-3"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+                                  />
+                                </svg>
+                                Prices
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleArchive(item._id)}
+                                className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-700 bg-red-50 hover:bg-red-100 transition-all duration-150 hover:shadow-md"
+                              >
+                                <svg
+                                  className="w-3 h-3"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  viewBox="0 0 24 24"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"
+                                  />
+                                </svg>
+                                Archive
+                              </button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -656,6 +2274,48 @@ const ItemsPage: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {adjustingItem && (
+        <StockAdjustmentDialog
+          item={adjustingItem}
+          onClose={() => setAdjustingItem(null)}
+          onSaved={() => {
+            setAdjustingItem(null);
+            void loadItems(search.trim() !== "" ? search : undefined, page);
+          }}
+        />
+      )}
+
+      {bulkAction && (
+        <BulkItemActionDialog
+          action={bulkAction.action}
+          items={bulkAction.items}
+          onClose={() => setBulkAction(null)}
+          onDone={() => {
+            setBulkAction(null);
+            void loadItems(search.trim() !== "" ? search : undefined, page);
+          }}
+        />
+      )}
+
+      {pricingItem && (
+        <PriceHistoryDialog
+          item={pricingItem}
+          onClose={() => setPricingItem(null)}
+        />
+      )}
+
+      {isImportOpen && (
+        <ItemImportDialog
+          categories={categories}
+          suppliers={suppliers}
+          onClose={() => setIsImportOpen(false)}
+          onImported={() => {
+            setIsImportOpen(false);
+            void loadItems(search.trim() !== "" ? search : undefined, page);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,21 +1,55 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import { reportService } from "../services/reportService";
+import { itemService } from "../services/itemService";
+import { locationService } from "../services/locationService";
 import type {
   InventoryReportEntry,
+  InventoryCategoryGroup,
+  InventoryLocationSummary,
+  InventoryReportResponse,
+  ExpiringLotEntry,
 } from "../types/report.types";
 import type { InventoryReportQuery } from "../services/reportService";
+import type { Location } from "../types/location.types";
+import type { Item } from "../types/item.types";
+import { formatMargin, marginPercent } from "../utils/margin";
+import { isBelowReorderLevel } from "../utils/stock";
+import { formatQuantity } from "../utils/units";
+import { formatExpiry } from "../utils/lots";
+import { bundleAvailability, isBundle } from "../utils/bundles";
 
-const LOW_STOCK_THRESHOLD = 5;
 const PAGE_SIZE = 20;
 
 type DateRange = "all" | "today" | "month" | "year" | "custom";
+type ReportView = "items" | "category" | "location" | "expiring";
+
+const VIEW_LABELS: Record<ReportView, string> = {
+  items: "By Item",
+  category: "By Category",
+  location: "By Location",
+  expiring: "Expiring",
+};
+
+const DEFAULT_EXPIRY_DAYS = 30;
 
 const ItemsReportPage: React.FC = () => {
   const [range, setRange] = useState<DateRange>("all");
   const [customFrom, setCustomFrom] = useState("");
   const [customTo, setCustomTo] = useState("");
+  const [view, setView] = useState<ReportView>("items");
+  const [belowReorderOnly, setBelowReorderOnly] = useState(false);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationFilter, setLocationFilter] = useState("");
+  // Component stock behind bundle rows
+  const [stockItems, setStockItems] = useState<Item[]>([]);
   const [data, setData] = useState<InventoryReportEntry[]>([]);
+  const [groups, setGroups] = useState<InventoryCategoryGroup[]>([]);
+  const [locationSummaries, setLocationSummaries] = useState<
+    InventoryLocationSummary[]
+  >([]);
+  const [expiryDays, setExpiryDays] = useState(DEFAULT_EXPIRY_DAYS);
+  const [expiringLots, setExpiringLots] = useState<ExpiringLotEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
@@ -25,7 +59,7 @@ const ItemsReportPage: React.FC = () => {
     total: 0,
     totalPages: 1,
   });
-  const [totals, setTotals] = useState({
+  const [totals, setTotals] = useState<InventoryReportResponse["totals"]>({
     totalInventoryValue: 0,
     totalSalesCount: 0,
     totalSoldQuantity: 0,
@@ -40,6 +74,8 @@ const ItemsReportPage: React.FC = () => {
       pageSize: PAGE_SIZE,
       range,
     };
+    if (belowReorderOnly) query.belowReorderLevel = true;
+    if (locationFilter) query.location = locationFilter;
     if (range === "custom") {
       if (customFrom) query.customFrom = customFrom;
       if (customTo) query.customTo = customTo;
@@ -53,8 +89,36 @@ const ItemsReportPage: React.FC = () => {
         setIsLoading(true);
         setError(null);
         const query: InventoryReportQuery = buildQuery();
-        const report = await reportService.getInventoryReport(query);
+        const [report, grouped, byLocation, expiring] = await Promise.all([
+          reportService.getInventoryReport(query),
+          view === "category"
+            ? reportService.getInventoryReportByCategory({
+                range: query.range,
+                customFrom: query.customFrom,
+                customTo: query.customTo,
+                belowReorderLevel: query.belowReorderLevel,
+                location: query.location,
+              })
+            : Promise.resolve([]),
+          view === "location"
+            ? reportService.getInventoryReportByLocation({
+                range: query.range,
+                customFrom: query.customFrom,
+                customTo: query.customTo,
+                belowReorderLevel: query.belowReorderLevel,
+              })
+            : Promise.resolve([]),
+          view === "expiring"
+            ? reportService.getExpiringLots({
+                days: expiryDays,
+                location: query.location,
+              })
+            : Promise.resolve([]),
+        ]);
         setData(report.data);
+        setGroups(grouped);
+        setLocationSummaries(byLocation);
+        setExpiringLots(expiring);
         setMeta(report.meta);
         setTotals(report.totals);
       } catch {
@@ -64,7 +128,41 @@ const ItemsReportPage: React.FC = () => {
       }
     };
     void load();
-  }, [page, range, customFrom, customTo]);
+  }, [
+    page,
+    range,
+    customFrom,
+    customTo,
+    view,
+    belowReorderOnly,
+    locationFilter,
+    expiryDays,
+  ]);
+
+  useEffect(() => {
+    locationService
+      .getLocations({ page: 1, pageSize: 200 })
+      .then((response) => setLocations(response.data))
+      .catch(() => setLocations([]));
+    itemService
+      .getItems({ page: 1, pageSize: 200 })
+      .then((response) => setStockItems(response.data))
+      .catch(() => setStockItems([]));
+  }, []);
+
+  // Bundles hold no stock of their own; report what their components make up
+  const stockQuantity = (row: InventoryReportEntry): number =>
+    isBundle(row)
+      ? bundleAvailability(row, stockItems, locationFilter || undefined)
+      : row.quantity;
+
+  const isLowStockRow = (row: InventoryReportEntry): boolean =>
+    isBelowReorderLevel({
+      quantity: stockQuantity(row),
+      reorderLevel: row.reorderLevel,
+    });
+
+  const lowStockItems = data.filter(isLowStockRow);
 
   const totalValue = useMemo(() => totals.totalInventoryValue, [totals]);
 
@@ -128,7 +226,69 @@ const ItemsReportPage: React.FC = () => {
           </>
         )}
 
+        <label className="inline-flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={belowReorderOnly}
+            onChange={(e) => {
+              setBelowReorderOnly(e.target.checked);
+              setPage(1);
+            }}
+            className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400"
+          />
+          Below reorder level
+        </label>
+
+        {locations.length > 0 && view !== "location" && (
+          <select
+            value={locationFilter}
+            onChange={(e) => {
+              setLocationFilter(e.target.value);
+              setPage(1);
+            }}
+            className="border-2 border-amber-300 rounded-lg px-3 py-2 text-sm bg-white"
+          >
+            <option value="">All locations</option>
+            {locations.map((location) => (
+              <option key={location._id} value={location._id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {view === "expiring" && (
+          <label className="inline-flex items-center gap-2 text-sm font-semibold text-gray-700">
+            Expiring within
+            <input
+              type="number"
+              min={0}
+              value={expiryDays}
+              onChange={(e) =>
+                setExpiryDays(Math.max(0, Math.floor(Number(e.target.value) || 0)))
+              }
+              className="w-20 border-2 border-amber-300 rounded-lg px-3 py-2 text-sm bg-white"
+            />
+            days
+          </label>
+        )}
+
         <div className="ml-auto flex gap-2">
+          <div className="inline-flex rounded-lg border-2 border-amber-300 overflow-hidden">
+            {(Object.keys(VIEW_LABELS) as ReportView[]).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-4 py-2 text-sm font-semibold transition ${
+                  view === v
+                    ? "bg-amber-500 text-white"
+                    : "bg-white text-gray-700 hover:bg-amber-50"
+                }`}
+              >
+                {VIEW_LABELS[v]}
+              </button>
+            ))}
+          </div>
           <button
             onClick={() => handleExport("pdf")}
             className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-amber-300 bg-amber-50 text-sm font-semibold text-gray-700 hover:bg-amber-100 transition-all"
@@ -151,7 +311,7 @@ const ItemsReportPage: React.FC = () => {
       )}
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6 mb-8">
         <div className="bg-white p-6 rounded-lg shadow-md border-2 border-amber-200">
           <div className="text-sm font-semibold text-gray-600 mb-2">
             Total Inventory Value
@@ -184,6 +344,24 @@ const ItemsReportPage: React.FC = () => {
             ₹ {totals.totalSoldValue.toFixed(2)}
           </div>
         </div>
+        <div className="bg-white p-6 rounded-lg shadow-md border-2 border-amber-200">
+          <div className="text-sm font-semibold text-gray-600 mb-2">
+            Gross Profit
+          </div>
+          <div className="text-2xl font-bold text-gray-800">
+            {totals.totalSoldCost !== undefined
+              ? `₹ ${(totals.totalSoldValue - totals.totalSoldCost).toFixed(2)}`
+              : "-"}
+          </div>
+          {totals.totalSoldCost !== undefined && (
+            <div className="text-sm text-gray-600">
+              Margin{" "}
+              {formatMargin(
+                marginPercent(totals.totalSoldValue, totals.totalSoldCost)
+              )}
+            </div>
+          )}
+        </div>
         <div className="bg-white p-6 rounded-lg shadow-md border-2 border-amber-200">
           <div className="text-sm font-semibold text-gray-600 mb-2">
             Top Seller
@@ -198,15 +376,27 @@ const ItemsReportPage: React.FC = () => {
       </div>
 
       {/* Low Stock Alert */}
-      {data.some((item) => item.quantity < LOW_STOCK_THRESHOLD) && (
+      {lowStockItems.length > 0 && (
         <div className="mb-6 p-4 bg-orange-100 border-2 border-orange-300 rounded-lg">
           <div className="font-semibold text-orange-800 mb-1">
             Low Stock Alert
           </div>
-          <div className="text-sm text-orange-700">
-            Some items are running low on stock (below {LOW_STOCK_THRESHOLD}{" "}
-            units). Please restock soon.
+          <div className="text-sm text-orange-700 mb-2">
+            {lowStockItems.length} item(s) on this page are at or below their
+            reorder level. Please restock soon.
           </div>
+          <ul className="text-sm text-orange-800 list-disc pl-5 space-y-0.5">
+            {lowStockItems.map((row) => (
+              <li key={row.name}>
+                {row.name}: {formatQuantity(stockQuantity(row), row.unit)} in stock
+                (reorder at {formatQuantity(row.reorderLevel ?? 0, row.unit)}
+                {row.reorderQuantity
+                  ? `, order ${formatQuantity(row.reorderQuantity, row.unit)}`
+                  : ""}
+                )
+              </li>
+            ))}
+          </ul>
         </div>
       )}
 
@@ -222,81 +412,343 @@ const ItemsReportPage: React.FC = () => {
           <div className="p-8 text-center text-gray-600">Loading...</div>
         )}
 
-        <table className="w-full">
-          <thead className="bg-amber-100">
-            <tr>
-              <th className="text-left p-4 font-semibold text-gray-700">
-                Name
-              </th>
-              <th className="text-left p-4 font-semibold text-gray-700">
-                Description
-              </th>
-              <th className="text-right p-4 font-semibold text-gray-700">
-                Quantity
-              </th>
-              <th className="text-right p-4 font-semibold text-gray-700">
-                Price
-              </th>
-              <th className="text-right p-4 font-semibold text-gray-700">
-                Total Value
-              </th>
-              <th className="text-right p-4 font-semibold text-gray-700">
-                Sold Qty
-              </th>
-              <th className="text-right p-4 font-semibold text-gray-700">
-                Sold Value
-              </th>
-            </tr>
-          </thead>
-          <tbody>
-            {data.length === 0 && !isLoading ? (
+        {view === "items" ? (
+          <table className="w-full">
+            <thead className="bg-amber-100">
+              <tr>
+                <th className="text-left p-4 font-semibold text-gray-700">
+                  Name
+                </th>
+                <th className="text-left p-4 font-semibold text-gray-700">
+                  Description
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Quantity
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Reorder Level
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Price
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Total Value
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Sold Qty
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Sold Value
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Margin
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Gross Profit
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.length === 0 && !isLoading ? (
+                <tr>
+                  <td colSpan={10} className="p-8 text-center text-gray-500">
+                    No inventory data available.
+                  </td>
+                </tr>
+              ) : (
+                data.map((row, index) => {
+                  const isLowStock = isLowStockRow(row);
+                  return (
+                    <tr
+                      key={index}
+                      className={`border-b border-gray-200 transition ${
+                        isLowStock
+                          ? "bg-red-50 hover:bg-red-100"
+                          : "hover:bg-amber-50"
+                      }`}
+                    >
+                      <td className="p-4">
+                        <div className="flex items-center gap-2">
+                          {isLowStock && (
+                            <span className="text-red-500 font-bold">⚠️</span>
+                          )}
+                          <span className="font-semibold text-gray-800">
+                            {row.name}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="p-4 text-gray-600">
+                        {row.description || "-"}
+                      </td>
+                      <td
+                        className={`p-4 text-right ${
+                          isLowStock
+                            ? "text-red-700 font-semibold"
+                            : "text-gray-800"
+                        }`}
+                      >
+                        {formatQuantity(stockQuantity(row), row.unit)}
+                      </td>
+                      <td className="p-4 text-right text-gray-600">
+                        {row.reorderLevel !== undefined
+                          ? formatQuantity(row.reorderLevel, row.unit)
+                          : "-"}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        ₹ {row.price.toFixed(2)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        ₹ {(row.price * row.quantity).toFixed(2)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        {formatQuantity(row.soldQuantity ?? 0, row.unit)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        ₹ {(row.soldValue ?? 0).toFixed(2)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        {row.costPrice !== undefined
+                          ? formatMargin(marginPercent(row.price, row.costPrice))
+                          : "-"}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        {row.soldCost !== undefined
+                          ? `₹ ${((row.soldValue ?? 0) - row.soldCost).toFixed(2)}`
+                          : "-"}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        ) : view === "category" ? (
+          <table className="w-full">
+            <thead className="bg-amber-100">
               <tr>
-                <td colSpan={7} className="p-8 text-center text-gray-500">
-                  No inventory data available.
-                </td>
+                <th className="text-left p-4 font-semibold text-gray-700">
+                  Name
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Quantity
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Inventory Value
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Sold Qty
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Sold Value
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Gross Profit
+                </th>
               </tr>
+            </thead>
+            {groups.length === 0 && !isLoading ? (
+              <tbody>
+                <tr>
+                  <td colSpan={6} className="p-8 text-center text-gray-500">
+                    No inventory data available.
+                  </td>
+                </tr>
+              </tbody>
             ) : (
-              data.map((row, index) => {
-                const isLowStock = row.quantity < LOW_STOCK_THRESHOLD;
-                return (
-                  <tr
-                    key={index}
-                    className="border-b border-gray-200 hover:bg-amber-50 transition"
-                  >
-                    <td className="p-4">
-                      <div className="flex items-center gap-2">
-                        {isLowStock && (
-                          <span className="text-red-500 font-bold">⚠️</span>
-                        )}
-                        <span className="font-semibold text-gray-800">
-                          {row.name}
-                        </span>
-                      </div>
+              groups.map((group) => (
+                <tbody key={group.category}>
+                  <tr className="bg-orange-50 border-b border-amber-200">
+                    <td
+                      colSpan={6}
+                      className="p-3 font-bold text-amber-800 uppercase tracking-wide text-sm"
+                    >
+                      {group.category}
                     </td>
-                    <td className="p-4 text-gray-600">
-                      {row.description || "-"}
+                  </tr>
+                  {group.items.map((row, index) => (
+                    <tr
+                      key={`${group.category}-${index}`}
+                      className={`border-b border-gray-200 transition ${
+                        isLowStockRow(row)
+                          ? "bg-red-50 hover:bg-red-100"
+                          : "hover:bg-amber-50"
+                      }`}
+                    >
+                      <td className="p-4 pl-8 text-gray-800">{row.name}</td>
+                      <td className="p-4 text-right text-gray-800">
+                        {formatQuantity(stockQuantity(row), row.unit)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        ₹ {(row.price * row.quantity).toFixed(2)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        {formatQuantity(row.soldQuantity ?? 0, row.unit)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        ₹ {(row.soldValue ?? 0).toFixed(2)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        {row.soldCost !== undefined
+                          ? `₹ ${((row.soldValue ?? 0) - row.soldCost).toFixed(2)}`
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-b-2 border-amber-200 bg-amber-50 font-semibold">
+                    <td className="p-4 pl-8 text-gray-700">
+                      Subtotal ({group.items.length} items)
                     </td>
                     <td className="p-4 text-right text-gray-800">
-                      {row.quantity}
+                      {group.totalQuantity}
                     </td>
                     <td className="p-4 text-right text-gray-800">
-                      ₹ {row.price.toFixed(2)}
+                      ₹ {group.inventoryValue.toFixed(2)}
                     </td>
                     <td className="p-4 text-right text-gray-800">
-                      ₹ {(row.price * row.quantity).toFixed(2)}
+                      {group.soldQuantity}
                     </td>
                     <td className="p-4 text-right text-gray-800">
-                      {row.soldQuantity ?? 0}
+                      ₹ {group.soldValue.toFixed(2)}
                     </td>
                     <td className="p-4 text-right text-gray-800">
-                      ₹ {(row.soldValue ?? 0).toFixed(2)}
+                      {group.soldCost !== undefined
+                        ? `₹ ${(group.soldValue - group.soldCost).toFixed(2)}`
+                        : "-"}
                     </td>
                   </tr>
-                );
-              })
+                </tbody>
+              ))
             )}
-          </tbody>
-        </table>
+          </table>
+        ) : view === "expiring" ? (
+          <table className="w-full">
+            <thead className="bg-amber-100">
+              <tr>
+                <th className="text-left p-4 font-semibold text-gray-700">
+                  Item
+                </th>
+                <th className="text-left p-4 font-semibold text-gray-700">
+                  Lot
+                </th>
+                <th className="text-left p-4 font-semibold text-gray-700">
+                  Location
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Quantity
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Expiry
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Days Left
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Value at Cost
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {expiringLots.length === 0 && !isLoading ? (
+                <tr>
+                  <td colSpan={7} className="p-8 text-center text-gray-500">
+                    No lots expire within {expiryDays} days.
+                  </td>
+                </tr>
+              ) : (
+                expiringLots.map((row) => {
+                  const expired = row.daysUntilExpiry < 0;
+                  return (
+                    <tr
+                      key={`${row.item}-${row.lotNumber}-${row.location ?? ""}`}
+                      className={`border-b border-gray-200 transition ${
+                        expired ? "bg-red-50 hover:bg-red-100" : "hover:bg-amber-50"
+                      }`}
+                    >
+                      <td className="p-4 text-gray-800 font-medium">
+                        {row.item}
+                        {row.sku && (
+                          <span className="text-xs text-gray-500"> · {row.sku}</span>
+                        )}
+                      </td>
+                      <td className="p-4 text-gray-800 font-mono">{row.lotNumber}</td>
+                      <td className="p-4 text-gray-600">{row.location ?? "-"}</td>
+                      <td className="p-4 text-right text-gray-800">
+                        {formatQuantity(row.quantity, row.unit)}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        {formatExpiry(row.expiryDate)}
+                      </td>
+                      <td
+                        className={`p-4 text-right font-semibold ${
+                          expired ? "text-red-700" : "text-gray-800"
+                        }`}
+                      >
+                        {expired ? "Expired" : row.daysUntilExpiry}
+                      </td>
+                      <td className="p-4 text-right text-gray-800">
+                        {row.value !== undefined ? `₹ ${row.value.toFixed(2)}` : "-"}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-amber-100">
+              <tr>
+                <th className="text-left p-4 font-semibold text-gray-700">
+                  Location
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Items
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Quantity
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Inventory Value
+                </th>
+                <th className="text-right p-4 font-semibold text-gray-700">
+                  Below Reorder
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {locationSummaries.length === 0 && !isLoading ? (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-gray-500">
+                    No inventory data available.
+                  </td>
+                </tr>
+              ) : (
+                locationSummaries.map((summary) => (
+                  <tr
+                    key={summary.location}
+                    className="border-b border-gray-200 hover:bg-amber-50 transition"
+                  >
+                    <td className="p-4 text-gray-800 font-medium">
+                      {summary.location}
+                    </td>
+                    <td className="p-4 text-right text-gray-800">
+                      {summary.itemCount}
+                    </td>
+                    <td className="p-4 text-right text-gray-800">
+                      {summary.totalQuantity}
+                    </td>
+                    <td className="p-4 text-right text-gray-800">
+                      ₹ {summary.inventoryValue.toFixed(2)}
+                    </td>
+                    <td className="p-4 text-right text-gray-800">
+                      {summary.belowReorderCount ?? "-"}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        )}
 
         {/* Total Footer */}
         <div className="bg-amber-100 p-4 flex justify-between items-center border-t-2 border-amber-200">
@@ -308,27 +760,29 @@ const ItemsReportPage: React.FC = () => {
       </div>
 
       {/* Pagination */}
-      <div className="flex justify-between items-center">
-        <div className="text-sm text-gray-600">
-          Page {meta.page} of {meta.totalPages} ({meta.total} total items)
-        </div>
-        <div className="flex gap-2">
-          <button
-            onClick={() => setPage((p) => Math.max(1, p - 1))}
-            disabled={page === 1}
-            className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-          >
-            ← Prev
-          </button>
-          <button
-            onClick={() => setPage((p) => Math.min(meta.totalPages, p + 1))}
-            disabled={page >= meta.totalPages}
-            className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-          >
-            Next →
-          </button>
+      {view === "items" && (
+        <div className="flex justify-between items-center">
+          <div className="text-sm text-gray-600">
+            Page {meta.page} of {meta.totalPages} ({meta.total} total items)
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              ← Prev
+            </button>
+            <button
+              onClick={() => setPage((p) => Math.min(meta.totalPages, p + 1))}
+              disabled={page >= meta.totalPages}
+              className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              Next →
+            </button>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
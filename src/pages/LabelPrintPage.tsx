@@ -0,0 +1,406 @@
+import React, { useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { itemService } from "../services/itemService";
+import type { Item } from "../types/item.types";
+import BarcodeSvg from "../components/BarcodeSvg";
+import { pickSymbology } from "../utils/barcode";
+import {
+  LABEL_LAYOUTS,
+  buildLabelSheets,
+  labelCode,
+  labelPrice,
+  labelsPerSheet,
+  layoutError,
+  type LabelLayout,
+  type LabelRequest,
+} from "../utils/labels";
+
+// ItemsPage passes the selected items through router state
+interface LabelPrintState {
+  items?: Item[];
+}
+
+type LayoutField = Exclude<keyof LabelLayout, "id" | "name">;
+
+const LAYOUT_FIELDS: { field: LayoutField; label: string }[] = [
+  { field: "columns", label: "Columns" },
+  { field: "rows", label: "Rows" },
+  { field: "labelWidthMm", label: "Label width (mm)" },
+  { field: "labelHeightMm", label: "Label height (mm)" },
+  { field: "marginTopMm", label: "Top margin (mm)" },
+  { field: "marginLeftMm", label: "Left margin (mm)" },
+  { field: "gapXMm", label: "Column gap (mm)" },
+  { field: "gapYMm", label: "Row gap (mm)" },
+  { field: "pageWidthMm", label: "Page width (mm)" },
+  { field: "pageHeightMm", label: "Page height (mm)" },
+];
+
+const LabelPrintPage: React.FC = () => {
+  const location = useLocation();
+  const [requests, setRequests] = useState<LabelRequest[]>(() =>
+    ((location.state as LabelPrintState | null)?.items ?? []).map((item) => ({
+      item,
+      copies: 1,
+    }))
+  );
+  const [layout, setLayout] = useState<LabelLayout>(LABEL_LAYOUTS[0]);
+  const [skip, setSkip] = useState(0);
+  const [showPrice, setShowPrice] = useState(true);
+  const [scanCode, setScanCode] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sheetError = layoutError(layout);
+  const sheets = sheetError ? [] : buildLabelSheets(requests, layout, skip);
+  const labelCount = requests.reduce((total, r) => total + Math.max(r.copies, 0), 0);
+  const uncodedCount = requests.filter((r) => {
+    const code = labelCode(r.item);
+    return !code || !pickSymbology(code);
+  }).length;
+
+  const handleLayoutChange = (id: string): void => {
+    const preset = LABEL_LAYOUTS.find((l) => l.id === id);
+    if (preset) setLayout(preset);
+    setSkip(0);
+  };
+
+  // Editing a measurement turns the preset into a custom layout. Columns and
+  // rows count whole labels.
+  const handleLayoutFieldChange = (field: LayoutField, value: string): void => {
+    const parsed = Number(value) || 0;
+    setLayout((prev) => ({
+      ...prev,
+      id: "custom",
+      name: "Custom",
+      [field]: field === "columns" || field === "rows" ? Math.floor(parsed) : parsed,
+    }));
+  };
+
+  const handleCopiesChange = (index: number, value: string): void => {
+    setRequests((prev) =>
+      prev.map((request, i) =>
+        i === index
+          ? { ...request, copies: Math.max(0, Math.floor(Number(value) || 0)) }
+          : request
+      )
+    );
+  };
+
+  const handleRemove = (index: number): void => {
+    setRequests((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // Barcode scanners type the code followed by Enter, so resolve on Enter.
+  // Scanning an item already on the list adds a copy.
+  const handleScanKeyDown = async (
+    event: React.KeyboardEvent<HTMLInputElement>
+  ): Promise<void> => {
+    if (event.key !== "Enter") return;
+    event.preventDefault();
+    const code = scanCode.trim();
+    if (!code) return;
+    setScanCode("");
+    setError(null);
+
+    try {
+      setIsLookingUp(true);
+      const item = await itemService.lookupItem(code);
+      if (!item?._id) {
+        setError(`No item found for code "${code}".`);
+        return;
+      }
+      setRequests((prev) =>
+        prev.some((r) => r.item._id === item._id)
+          ? prev.map((r) =>
+              r.item._id === item._id ? { ...r, copies: r.copies + 1 } : r
+            )
+          : [...prev, { item, copies: 1 }]
+      );
+    } catch {
+      setError("Failed to look up item. Please try again.");
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const renderLabel = (item: Item) => {
+    const code = labelCode(item);
+    const symbology = code ? pickSymbology(code) : undefined;
+    return (
+      <div className="h-full flex flex-col items-center justify-center px-[2mm] py-[1.5mm] text-black overflow-hidden">
+        <p className="w-full text-center text-[8pt] font-semibold leading-tight truncate">
+          {item.name}
+        </p>
+        {code && symbology && (
+          <BarcodeSvg
+            value={code}
+            symbology={symbology}
+            className="w-full flex-1 min-h-0 my-[1mm]"
+          />
+        )}
+        {code && (
+          <p className="text-[7pt] font-mono leading-none tracking-wider">{code}</p>
+        )}
+        {showPrice && (
+          <p className="text-[9pt] font-bold leading-tight mt-[0.5mm]">
+            ₹ {labelPrice(item).toFixed(2)}
+            {(item.taxRate ?? 0) > 0 && (
+              <span className="text-[6pt] font-normal"> incl. GST</span>
+            )}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 p-4 sm:p-6 lg:p-8 print:min-h-0 print:bg-none print:p-0">
+      {/* Sheets are sized in millimetres, so the printed page must have no margin */}
+      <style>{`@page { size: ${layout.pageWidthMm}mm ${layout.pageHeightMm}mm; margin: 0; }`}</style>
+
+      <div className="max-w-7xl mx-auto space-y-6 print:hidden">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 tracking-tight">
+              Print Labels
+            </h1>
+            <p className="text-gray-600 text-sm mt-1">
+              Shelf labels with barcodes, names and prices, laid out for label
+              sheets.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Link
+              to="/inventory"
+              className="px-5 py-3 rounded-xl border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 transition-all"
+            >
+              Back to Items
+            </Link>
+            <button
+              type="button"
+              onClick={() => window.print()}
+              disabled={labelCount === 0 || sheets.length === 0}
+              className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-semibold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg"
+            >
+              Print {labelCount} {labelCount === 1 ? "label" : "labels"}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg shadow-sm flex items-start gap-3">
+            <svg className="w-5 h-5 mt-0.5 shrink-0" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+            </svg>
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Items */}
+          <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+            <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+              <h2 className="text-xl font-semibold text-gray-800">Items</h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <input
+                type="text"
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                onKeyDown={handleScanKeyDown}
+                disabled={isLookingUp}
+                placeholder="Scan or type a SKU or barcode and press Enter"
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              />
+              {requests.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Select items on the Items page and choose Print Labels, or
+                  scan them here.
+                </p>
+              ) : (
+                <div className="overflow-x-auto border-2 border-amber-100 rounded-xl">
+                  <table className="min-w-full divide-y divide-amber-100 text-sm">
+                    <thead className="bg-amber-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-bold text-gray-700">Item</th>
+                        <th className="px-3 py-2 text-left font-bold text-gray-700">Code</th>
+                        <th className="px-3 py-2 text-right font-bold text-gray-700 w-24">
+                          Copies
+                        </th>
+                        <th className="px-3 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-amber-100">
+                      {requests.map((request, index) => {
+                        const code = labelCode(request.item);
+                        const symbology = code ? pickSymbology(code) : undefined;
+                        return (
+                          <tr key={request.item._id ?? index}>
+                            <td className="px-3 py-2 text-gray-800 font-medium">
+                              {request.item.name}
+                            </td>
+                            <td className="px-3 py-2 text-xs whitespace-nowrap">
+                              {code && symbology ? (
+                                <>
+                                  <span className="font-mono text-gray-800">{code}</span>
+                                  <span className="block text-gray-500">
+                                    {symbology === "ean13" ? "EAN-13" : "Code 128"}
+                                  </span>
+                                </>
+                              ) : (
+                                <span className="text-red-700">
+                                  {code ? "Code cannot be printed" : "No SKU or barcode"}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2">
+                              <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={request.copies}
+                                onChange={(e) => handleCopiesChange(index, e.target.value)}
+                                className="w-full px-2 py-1 border-2 border-amber-200 rounded-lg bg-amber-50 text-right focus:outline-none focus:ring-2 focus:ring-amber-400"
+                              />
+                            </td>
+                            <td className="px-3 py-2 text-right">
+                              <button
+                                type="button"
+                                onClick={() => handleRemove(index)}
+                                className="text-xs font-semibold text-red-600 hover:text-red-800"
+                              >
+                                Remove
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {uncodedCount > 0 && (
+                <p className="text-xs text-gray-500">
+                  {uncodedCount} {uncodedCount === 1 ? "item prints" : "items print"}{" "}
+                  without a barcode.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Sheet Layout */}
+          <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+            <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+              <h2 className="text-xl font-semibold text-gray-800">Sheet Layout</h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <select
+                value={layout.id}
+                onChange={(e) => handleLayoutChange(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+              >
+                {LABEL_LAYOUTS.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+                {layout.id === "custom" && <option value="custom">Custom</option>}
+              </select>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {LAYOUT_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={field === "columns" || field === "rows" ? 1 : 0.1}
+                      value={layout[field]}
+                      onChange={(e) => handleLayoutFieldChange(field, e.target.value)}
+                      className="w-full px-2 py-1 border-2 border-amber-200 rounded-lg bg-amber-50 text-sm text-right focus:outline-none focus:ring-2 focus:ring-amber-400"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                  Start at label
+                  <input
+                    type="number"
+                    min={1}
+                    max={labelsPerSheet(layout)}
+                    value={skip + 1}
+                    onChange={(e) =>
+                      setSkip(
+                        Math.min(
+                          Math.max(Math.floor(Number(e.target.value) || 1), 1),
+                          labelsPerSheet(layout)
+                        ) - 1
+                      )
+                    }
+                    className="w-20 px-2 py-1 border-2 border-amber-200 rounded-lg bg-amber-50 text-right focus:outline-none focus:ring-2 focus:ring-amber-400"
+                  />
+                </label>
+                <label className="inline-flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showPrice}
+                    onChange={(e) => setShowPrice(e.target.checked)}
+                    className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400"
+                  />
+                  Show price
+                </label>
+              </div>
+              {sheetError ? (
+                <p className="text-xs text-red-600">{sheetError}</p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  {labelsPerSheet(layout)} labels per sheet · {sheets.length}{" "}
+                  {sheets.length === 1 ? "sheet" : "sheets"}. Print at 100% scale
+                  with no margins.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Sheets */}
+      <div className="mt-6 overflow-x-auto print:mt-0 print:overflow-visible">
+        {sheets.map((sheet, sheetIndex) => (
+          <div
+            key={sheetIndex}
+            className="relative mx-auto mb-6 bg-white shadow-lg print:m-0 print:shadow-none break-after-page last:break-after-auto"
+            style={{
+              width: `${layout.pageWidthMm}mm`,
+              height: `${layout.pageHeightMm}mm`,
+            }}
+          >
+            {sheet.map((item, index) => {
+              const column = index % layout.columns;
+              const row = Math.floor(index / layout.columns);
+              return (
+                <div
+                  key={index}
+                  className="absolute outline outline-dashed outline-gray-200 print:outline-none"
+                  style={{
+                    left: `${layout.marginLeftMm + column * (layout.labelWidthMm + layout.gapXMm)}mm`,
+                    top: `${layout.marginTopMm + row * (layout.labelHeightMm + layout.gapYMm)}mm`,
+                    width: `${layout.labelWidthMm}mm`,
+                    height: `${layout.labelHeightMm}mm`,
+                  }}
+                >
+                  {item && renderLabel(item)}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LabelPrintPage;
@@ -0,0 +1,707 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { AxiosError } from "axios";
+import {
+  purchaseOrderService,
+  type PurchaseOrderListResponse,
+} from "../services/purchaseOrderService";
+import { supplierService } from "../services/supplierService";
+import { itemService } from "../services/itemService";
+import GoodsReceiptDialog from "../components/GoodsReceiptDialog";
+import type { Item, UnitOfMeasure } from "../types/item.types";
+import type { Supplier } from "../types/supplier.types";
+import type {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderPayload,
+  PurchaseOrderStatus,
+} from "../types/purchaseOrder.types";
+import { formatQuantity, hasValidPrecision, quantityStep } from "../utils/units";
+import { isBundle } from "../utils/bundles";
+import { hasVariants, variantLabel } from "../utils/variants";
+
+interface LineFormState {
+  itemId: string;
+  // Receipts add stock to the variant ordered on their line
+  variantId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+interface PurchaseFormState {
+  supplierId: string;
+  expectedDate: string;
+  notes: string;
+  lines: LineFormState[];
+}
+
+const emptyLine = (): LineFormState => ({
+  itemId: "",
+  variantId: "",
+  quantity: 1,
+  unitCost: 0,
+});
+
+const emptyPurchaseForm = (): PurchaseFormState => ({
+  supplierId: "",
+  expectedDate: "",
+  notes: "",
+  lines: [emptyLine()],
+});
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  ordered: "Ordered",
+  partially_received: "Partially Received",
+  received: "Received",
+};
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  ordered: "bg-blue-100 text-blue-800",
+  partially_received: "bg-orange-100 text-orange-800",
+  received: "bg-green-100 text-green-800",
+};
+
+const PurchasesPage: React.FC = () => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "">("");
+  const [page, setPage] = useState(1);
+  const [meta, setMeta] = useState<PurchaseOrderListResponse["meta"]>({
+    page: 1,
+    pageSize: 10,
+    total: 0,
+    totalPages: 1,
+  });
+  const [form, setForm] = useState<PurchaseFormState>(() => emptyPurchaseForm());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(
+    null
+  );
+
+  const orderTotal = useMemo(
+    () =>
+      form.lines.reduce((acc, line) => acc + line.quantity * line.unitCost, 0),
+    [form.lines]
+  );
+
+  const loadOrders = async (pageParam?: number): Promise<void> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await purchaseOrderService.getPurchaseOrders({
+        status: statusFilter || undefined,
+        page: pageParam ?? page,
+        pageSize: meta.pageSize,
+      });
+      setOrders(response.data);
+      setMeta(response.meta);
+    } catch {
+      setError("Failed to load purchase orders. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadOrders(page);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [page, statusFilter]);
+
+  useEffect(() => {
+    Promise.all([
+      supplierService.getSuppliers({ page: 1, pageSize: 200 }),
+      itemService.getItems({ page: 1, pageSize: 200, archived: "include" }),
+    ])
+      .then(([suppliersRes, itemsRes]) => {
+        setSuppliers(suppliersRes.data);
+        setItems(itemsRes.data);
+      })
+      .catch(() => setError("Failed to load suppliers and items."));
+  }, []);
+
+  const getSupplierName = (order: PurchaseOrder): string => {
+    if (typeof order.supplier === "string") {
+      const supplier = suppliers.find((s) => s._id === order.supplier);
+      return supplier?.name ?? order.supplier;
+    }
+    return order.supplier.name;
+  };
+
+  const getLineItemName = (line: PurchaseOrderLine): string => {
+    const item =
+      typeof line.item === "string"
+        ? items.find((i) => i._id === line.item)
+        : line.item;
+    if (!item) return typeof line.item === "string" ? line.item : "-";
+    const variant = item.variants?.find((v) => v._id === line.variant);
+    return variant
+      ? `${item.name} (${variantLabel(variant, item.options)})`
+      : item.name;
+  };
+
+  const getLineItemUnit = (line: PurchaseOrderLine): UnitOfMeasure | undefined =>
+    typeof line.item === "string"
+      ? items.find((i) => i._id === line.item)?.unit
+      : line.item.unit;
+
+  const getLineTracksLots = (line: PurchaseOrderLine): boolean =>
+    Boolean(
+      typeof line.item === "string"
+        ? items.find((i) => i._id === line.item)?.trackLots
+        : line.item.trackLots
+    );
+
+  const formatDate = (dateString?: string): string => {
+    if (!dateString) return "-";
+    const date = new Date(dateString);
+    if (Number.isNaN(date.getTime())) return dateString;
+    return date.toLocaleDateString();
+  };
+
+  const handleLineChange = (
+    index: number,
+    field: keyof LineFormState,
+    value: string
+  ) => {
+    setForm((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => {
+        if (i !== index) return line;
+        if (field === "itemId") {
+          // Default the expected cost to the item's current cost price
+          const item = items.find((it) => it._id === value);
+          return {
+            ...line,
+            itemId: value,
+            variantId: "",
+            unitCost: item?.costPrice ?? 0,
+          };
+        }
+        if (field === "variantId") {
+          const item = items.find((it) => it._id === line.itemId);
+          const variant = item?.variants?.find((v) => v._id === value);
+          return {
+            ...line,
+            variantId: value,
+            unitCost: variant?.costPrice ?? item?.costPrice ?? 0,
+          };
+        }
+        return { ...line, [field]: Number(value) || 0 };
+      }),
+    }));
+  };
+
+  const handleAddLine = () => {
+    setForm((prev) => ({ ...prev, lines: [...prev.lines, emptyLine()] }));
+  };
+
+  const handleRemoveLine = (index: number) => {
+    setForm((prev) => ({
+      ...prev,
+      lines: prev.lines.filter((_, i) => i !== index),
+    }));
+  };
+
+  const validateForm = (): string | null => {
+    if (!form.supplierId) return "Please select a supplier.";
+    if (form.lines.length === 0) return "Add at least one item line.";
+    const seen = new Set<string>();
+    for (const line of form.lines) {
+      if (!line.itemId) return "Please select an item on every line.";
+      const item = items.find((it) => it._id === line.itemId);
+      if (item && hasVariants(item) && !line.variantId)
+        return `Please select a variant for ${item.name}.`;
+      const key = `${line.itemId}:${line.variantId}`;
+      if (seen.has(key)) return "Each item can only appear once per order.";
+      seen.add(key);
+      if (line.quantity <= 0) return "Line quantities must be greater than 0.";
+      if (!hasValidPrecision(line.quantity, item?.unit))
+        return "A line quantity has more decimal places than its unit allows.";
+      if (line.unitCost < 0) return "Unit costs cannot be negative.";
+    }
+    return null;
+  };
+
+  const handleSubmit = async (status: "draft" | "ordered") => {
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    const payload: PurchaseOrderPayload = {
+      supplier: form.supplierId,
+      lines: form.lines.map((line) => ({
+        item: line.itemId,
+        variant: line.variantId || undefined,
+        quantity: line.quantity,
+        unitCost: line.unitCost,
+      })),
+      expectedDate: form.expectedDate || undefined,
+      notes: form.notes.trim() || undefined,
+      status,
+    };
+
+    try {
+      await purchaseOrderService.createPurchaseOrder(payload);
+      setForm(emptyPurchaseForm());
+      setPage(1);
+      void loadOrders(1);
+    } catch (err: unknown) {
+      let message = "Failed to save purchase order. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMarkOrdered = async (id: string | undefined): Promise<void> => {
+    if (!id) return;
+    try {
+      await purchaseOrderService.markOrdered(id);
+      void loadOrders();
+    } catch {
+      setError("Failed to update purchase order. Please try again.");
+    }
+  };
+
+  const handleDelete = async (id: string | undefined): Promise<void> => {
+    if (!id) return;
+    const confirmed = window.confirm(
+      "Are you sure you want to delete this draft purchase order?"
+    );
+    if (!confirmed) return;
+
+    try {
+      await purchaseOrderService.deletePurchaseOrder(id);
+      void loadOrders();
+    } catch {
+      setError("Failed to delete purchase order. Please try again.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 tracking-tight">
+              Purchases
+            </h1>
+            <p className="text-gray-600 text-sm mt-1">
+              Order stock from suppliers and receive deliveries into inventory.
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg shadow-sm flex items-start gap-3">
+            <svg className="w-5 h-5 mt-0.5 shrink-0" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+            </svg>
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Purchase Order Form */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+            <h2 className="text-xl font-semibold text-gray-800">
+              New Purchase Order
+            </h2>
+          </div>
+          <div className="p-6 space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Supplier
+                </label>
+                <select
+                  value={form.supplierId}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, supplierId: e.target.value }))
+                  }
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                >
+                  <option value="">Select supplier</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier._id} value={supplier._id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Expected Delivery
+                </label>
+                <input
+                  type="date"
+                  value={form.expectedDate}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, expectedDate: e.target.value }))
+                  }
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                />
+              </div>
+            </div>
+
+            <div className="border-2 border-amber-100 rounded-xl overflow-hidden">
+              <table className="min-w-full divide-y divide-amber-100 text-sm">
+                <thead className="bg-amber-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-bold text-gray-700">
+                      Item
+                    </th>
+                    <th className="px-4 py-3 text-left font-bold text-gray-700 w-48">
+                      Variant
+                    </th>
+                    <th className="px-4 py-3 text-right font-bold text-gray-700 w-32">
+                      Quantity
+                    </th>
+                    <th className="px-4 py-3 text-right font-bold text-gray-700 w-40">
+                      Unit Cost (₹)
+                    </th>
+                    <th className="px-4 py-3 text-right font-bold text-gray-700 w-32">
+                      Line Total
+                    </th>
+                    <th className="px-4 py-3 w-12"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-amber-100">
+                  {form.lines.map((line, index) => {
+                    const item = items.find((it) => it._id === line.itemId);
+                    return (
+                      <tr key={index}>
+                        <td className="px-4 py-2">
+                          <select
+                            value={line.itemId}
+                            onChange={(e) =>
+                              handleLineChange(index, "itemId", e.target.value)
+                            }
+                            className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                          >
+                            <option value="">Select item</option>
+                            {items
+                              // Bundles are restocked by buying their components
+                              .filter((it) => !it.archivedAt && !isBundle(it))
+                              .map((it) => (
+                                <option key={it._id} value={it._id}>
+                                  {`${it.name} (Stock: ${formatQuantity(it.quantity, it.unit)})`}
+                                </option>
+                              ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2">
+                          {item && hasVariants(item) ? (
+                            <select
+                              value={line.variantId}
+                              onChange={(e) =>
+                                handleLineChange(index, "variantId", e.target.value)
+                              }
+                              className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                            >
+                              <option value="">Select variant</option>
+                              {item.variants?.map((variant) => (
+                                <option key={variant._id} value={variant._id}>
+                                  {`${variantLabel(variant, item.options)} (Stock: ${formatQuantity(variant.quantity, item.unit)})`}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step={quantityStep(item?.unit)}
+                            value={line.quantity}
+                            onChange={(e) =>
+                              handleLineChange(index, "quantity", e.target.value)
+                            }
+                            className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 text-right focus:outline-none focus:ring-2 focus:ring-amber-400"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={line.unitCost}
+                            onChange={(e) =>
+                              handleLineChange(index, "unitCost", e.target.value)
+                            }
+                            className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 text-right focus:outline-none focus:ring-2 focus:ring-amber-400"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right font-semibold text-gray-800 whitespace-nowrap">
+                          ₹ {(line.quantity * line.unitCost).toFixed(2)}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveLine(index)}
+                            disabled={form.lines.length === 1}
+                            className="text-red-500 hover:text-red-700 disabled:opacity-30 disabled:cursor-not-allowed text-lg font-bold"
+                            title="Remove line"
+                          >
+                            ×
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div className="px-4 py-3 bg-amber-50 border-t-2 border-amber-100 flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={handleAddLine}
+                  className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-100 transition-all"
+                >
+                  + Add Line
+                </button>
+                <span className="text-base font-bold text-gray-800">
+                  Total ₹ {orderTotal.toFixed(2)}
+                </span>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Notes
+              </label>
+              <textarea
+                value={form.notes}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, notes: e.target.value }))
+                }
+                rows={2}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent resize-none transition-all"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+              <button
+                type="button"
+                onClick={() => handleSubmit("ordered")}
+                disabled={isSubmitting}
+                className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-semibold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg"
+              >
+                {isSubmitting ? "Saving..." : "Place Order"}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleSubmit("draft")}
+                disabled={isSubmitting}
+                className="px-6 py-3 rounded-xl border-2 border-amber-300 text-sm font-semibold text-gray-700 bg-white hover:bg-amber-50 disabled:opacity-60 disabled:cursor-not-allowed transition-all"
+              >
+                Save as Draft
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Purchase Orders List */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h2 className="text-xl font-semibold text-gray-800">
+              Purchase Orders
+            </h2>
+            <div className="flex items-center gap-3">
+              {isLoading && (
+                <span className="text-sm text-gray-600">Loading...</span>
+              )}
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as PurchaseOrderStatus | "");
+                  setPage(1);
+                }}
+                className="px-3 py-2 border-2 border-amber-200 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-400"
+              >
+                <option value="">All statuses</option>
+                {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map(
+                  (status) => (
+                    <option key={status} value={status}>
+                      {STATUS_LABELS[status]}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y-2 divide-amber-200">
+              <thead className="bg-linear-to-r from-amber-50 to-orange-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Order
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Supplier
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Expected
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Status
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Received
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Total
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100 bg-white">
+                {orders.length === 0 && !isLoading ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                      <p className="text-base font-medium">
+                        No purchase orders found.
+                      </p>
+                    </td>
+                  </tr>
+                ) : (
+                  orders.map((order) => {
+                    const ordered = order.lines.reduce(
+                      (acc, line) => acc + line.quantity,
+                      0
+                    );
+                    const received = order.lines.reduce(
+                      (acc, line) => acc + line.receivedQuantity,
+                      0
+                    );
+                    const total =
+                      order.totalCost ??
+                      order.lines.reduce(
+                        (acc, line) => acc + line.quantity * line.unitCost,
+                        0
+                      );
+                    return (
+                      <tr key={order._id} className="hover:bg-amber-50 transition-colors">
+                        <td className="px-6 py-4 text-sm text-gray-800 whitespace-nowrap">
+                          <div className="font-semibold">
+                            {order.orderNumber ?? order._id}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {formatDate(order.createdAt)} · {order.lines.length}{" "}
+                            line(s)
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                          {getSupplierName(order)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                          {formatDate(order.expectedDate)}
+                        </td>
+                        <td className="px-6 py-4 text-sm whitespace-nowrap">
+                          <span
+                            className={`inline-flex px-3 py-1 rounded-full text-xs font-bold ${STATUS_STYLES[order.status]}`}
+                          >
+                            {STATUS_LABELS[order.status]}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-800 text-right whitespace-nowrap">
+                          {received} / {ordered}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-bold text-gray-800 text-right whitespace-nowrap">
+                          ₹ {total.toFixed(2)}
+                        </td>
+                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                          <div className="flex items-center justify-end gap-2">
+                            {order.status === "draft" && (
+                              <>
+                                <button
+                                  onClick={() => handleMarkOrdered(order._id)}
+                                  className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-blue-300 text-xs font-semibold text-blue-700 bg-blue-50 hover:bg-blue-100 transition-all"
+                                >
+                                  Mark Ordered
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(order._id)}
+                                  className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-all"
+                                >
+                                  Delete
+                                </button>
+                              </>
+                            )}
+                            {(order.status === "ordered" ||
+                              order.status === "partially_received") && (
+                              <button
+                                onClick={() => setReceivingOrder(order)}
+                                className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-green-300 text-xs font-semibold text-green-700 bg-green-50 hover:bg-green-100 transition-all"
+                              >
+                                Receive Goods
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div className="bg-linear-to-r from-amber-50 to-orange-50 px-6 py-4 border-t-2 border-amber-200 flex flex-col sm:flex-row items-center justify-between gap-4">
+            <span className="text-sm font-medium text-gray-700">
+              Page {meta.page} of {meta.totalPages} ({meta.total} total)
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                ← Prev
+              </button>
+              <button
+                onClick={() => setPage((p) => Math.min(meta.totalPages, p + 1))}
+                disabled={page >= meta.totalPages}
+                className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Next →
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {receivingOrder && (
+        <GoodsReceiptDialog
+          order={receivingOrder}
+          getItemName={getLineItemName}
+          getItemUnit={getLineItemUnit}
+          tracksLots={getLineTracksLots}
+          onClose={() => setReceivingOrder(null)}
+          onReceived={() => {
+            setReceivingOrder(null);
+            void loadOrders();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PurchasesPage;
@@ -1,21 +1,62 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { saleService, type SaleListResponse } from "../services/saleService";
+import {
+  saleService,
+  type SaleListResponse,
+  type SaleSortField,
+} from "../services/saleService";
 import { itemService } from "../services/itemService";
 import { customerService } from "../services/customerService";
-import type { Item } from "../types/item.types";
+import { locationService } from "../services/locationService";
+import type { Item, ItemVariant } from "../types/item.types";
 import type { Customer } from "../types/customer.types";
+import type { Location } from "../types/location.types";
 import type { CreateSalePayload, Sale } from "../types/sale.types";
+import ExportButtons from "../components/ExportButtons";
+import SortableHeader from "../components/SortableHeader";
+import {
+  DEFAULT_UNIT,
+  formatQuantity,
+  hasValidPrecision,
+  quantityStep,
+  roundQuantity,
+  unitPrecision,
+} from "../utils/units";
+import { defaultLocationId, quantityAtLocation } from "../utils/stock";
+import { findVariantByCode, hasVariants, variantLabel } from "../utils/variants";
+import {
+  allocateLots,
+  formatExpiry,
+  isExpired,
+  lotsAtLocation,
+  sortLotsByExpiry,
+} from "../utils/lots";
+import {
+  bundleAvailability,
+  bundleDeductions,
+  bundleUnitCost,
+  isBundle,
+} from "../utils/bundles";
+import { exportList, type ExportFormat } from "../utils/listExport";
+import { computeTax, formatTaxRate } from "../utils/tax";
+import { toggleSort, type ListSort } from "../utils/sorting";
 
 interface SaleFormState {
   itemId: string;
+  variantId: string;
+  locationId: string;
+  lotId: string; // Empty means first-expiry-first-out across lots
   customerId: string;
   isCash: boolean;
   quantity: number;
   date: string;
 }
 
-const emptySaleForm = (): SaleFormState => ({
+// The selling location carries over between sales at the same till
+const emptySaleForm = (locationId = ""): SaleFormState => ({
   itemId: "",
+  variantId: "",
+  locationId,
+  lotId: "",
   customerId: "",
   isCash: true,
   quantity: 1,
@@ -25,6 +66,7 @@ const emptySaleForm = (): SaleFormState => ({
 const SalesPage: React.FC = () => {
   const [items, setItems] = useState<Item[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
   const [meta, setMeta] = useState<SaleListResponse["meta"]>({
     page: 1,
@@ -33,30 +75,72 @@ const SalesPage: React.FC = () => {
     totalPages: 1,
   });
   const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<ListSort<SaleSortField>>();
 
   const [form, setForm] = useState<SaleFormState>(() => emptySaleForm());
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [scanCode, setScanCode] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
 
   const selectedItem = useMemo(
     () => items.find((i) => i._id === form.itemId),
     [items, form.itemId]
   );
 
-  const totalPrice = useMemo(() => {
-    if (!selectedItem) return 0;
-    return selectedItem.price * form.quantity;
-  }, [selectedItem, form.quantity]);
+  const selectedVariant = useMemo(
+    () => selectedItem?.variants?.find((v) => v._id === form.variantId),
+    [selectedItem, form.variantId]
+  );
+
+  const sellableLots = useMemo(
+    () =>
+      selectedItem?.trackLots
+        ? sortLotsByExpiry(lotsAtLocation(selectedItem, form.locationId || undefined))
+        : [],
+    [selectedItem, form.locationId]
+  );
+
+  const selectedLot = sellableLots.find((lot) => lot._id === form.lotId);
+
+  const lotAllocation = useMemo(() => {
+    if (selectedLot?._id) {
+      return {
+        allocations: [
+          {
+            lot: selectedLot._id,
+            lotNumber: selectedLot.lotNumber,
+            quantity: form.quantity,
+          },
+        ],
+        shortfall: Math.max(0, form.quantity - selectedLot.quantity),
+      };
+    }
+    return allocateLots(sellableLots, form.quantity, selectedItem?.unit);
+  }, [selectedLot, sellableLots, form.quantity, selectedItem]);
+
+  const tax = useMemo(() => {
+    if (!selectedItem) return computeTax(0);
+    return computeTax(
+      (selectedVariant?.price ?? selectedItem.price) * form.quantity,
+      selectedItem.taxRate,
+      selectedItem.priceIncludesTax
+    );
+  }, [selectedItem, selectedVariant, form.quantity]);
 
   const loadInitialData = async (): Promise<void> => {
     try {
       setIsLoading(true);
       setError(null);
       const [itemsRes, customersRes, salesRes] = await Promise.all([
-        itemService.getItems({ page: 1, pageSize: 200 }),
-        customerService.getCustomers({ page: 1, pageSize: 200 }),
-        saleService.getSales({ page, pageSize: meta.pageSize }),
+        itemService.getItems({ page: 1, pageSize: 200, archived: "include" }),
+        customerService.getCustomers({
+          page: 1,
+          pageSize: 200,
+          archived: "include",
+        }),
+        saleService.getSales({ page, pageSize: meta.pageSize, ...sort }),
       ]);
       setItems(itemsRes.data);
       setCustomers(customersRes.data);
@@ -72,7 +156,39 @@ const SalesPage: React.FC = () => {
   useEffect(() => {
     void loadInitialData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page]);
+  }, [page, sort]);
+
+  useEffect(() => {
+    locationService
+      .getLocations({ page: 1, pageSize: 200 })
+      .then((response) => {
+        setLocations(response.data);
+        setForm((prev) =>
+          prev.locationId
+            ? prev
+            : { ...prev, locationId: defaultLocationId(response.data) }
+        );
+      })
+      .catch(() => setError("Failed to load locations."));
+  }, []);
+
+  // Archived records are loaded so past sales resolve, but cannot be sold to
+  const activeItems = items.filter((item) => !item.archivedAt);
+  const activeCustomers = customers.filter((customer) => !customer.archivedAt);
+
+  // Bundles can be sold as far as their components stretch at the location
+  const availableQuantity = (item: Item): number =>
+    isBundle(item)
+      ? bundleAvailability(item, items, form.locationId || undefined)
+      : quantityAtLocation(item, form.locationId || undefined);
+
+  const variantQuantity = (variant: ItemVariant): number =>
+    quantityAtLocation(variant, form.locationId || undefined);
+
+  const componentDeductions =
+    selectedItem && isBundle(selectedItem)
+      ? bundleDeductions(selectedItem, form.quantity, items)
+      : [];
 
     const handleInputChange = (
       event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
@@ -88,10 +204,25 @@ const SalesPage: React.FC = () => {
         return;
       }
 
+      if (name === "itemId") {
+        setForm((prev) => ({
+          ...prev,
+          itemId: target.value,
+          variantId: "",
+          lotId: "",
+        }));
+        return;
+      }
+
+      if (name === "locationId") {
+        setForm((prev) => ({ ...prev, locationId: target.value, lotId: "" }));
+        return;
+      }
+
       if (name === "quantity") {
         setForm((prev) => ({
           ...prev,
-          quantity: Number(target.value) || 1,
+          quantity: Number(target.value) || 0,
         }));
         return;
       }
@@ -104,14 +235,87 @@ const SalesPage: React.FC = () => {
 
 
 
+  // Barcode scanners type the code followed by Enter, so resolve on Enter.
+  // Scanning the selected item again bumps its quantity.
+  const handleScanKeyDown = async (
+    event: React.KeyboardEvent<HTMLInputElement>
+  ): Promise<void> => {
+    if (event.key !== "Enter") return;
+    event.preventDefault();
+    const code = scanCode.trim();
+    if (!code) return;
+    setScanCode("");
+    setError(null);
+
+    let item = activeItems.find(
+      (i) => i.barcode === code || i.sku === code || findVariantByCode(i, code)
+    );
+    if (!item) {
+      try {
+        setIsLookingUp(true);
+        item = (await itemService.lookupItem(code)) ?? undefined;
+      } catch {
+        setError("Failed to look up item. Please try again.");
+        return;
+      } finally {
+        setIsLookingUp(false);
+      }
+    }
+    if (!item?._id) {
+      setError(`No item found for code "${code}".`);
+      return;
+    }
+    if (item.archivedAt) {
+      setError(`"${item.name}" is archived and cannot be sold.`);
+      return;
+    }
+
+    const scanned = item;
+    const scannedVariantId = findVariantByCode(scanned, code)?._id ?? "";
+    if (!items.some((i) => i._id === scanned._id)) {
+      setItems((prev) => [...prev, scanned]);
+    }
+    setForm((prev) => ({
+      ...prev,
+      itemId: scanned._id ?? "",
+      variantId: scannedVariantId,
+      lotId: prev.itemId === scanned._id ? prev.lotId : "",
+      quantity:
+        prev.itemId === scanned._id && prev.variantId === scannedVariantId
+          ? roundQuantity(prev.quantity + 1, scanned.unit)
+          : 1,
+    }));
+  };
+
   const validateForm = (): string | null => {
     if (!form.itemId) return "Please select an item.";
     if (!form.isCash && !form.customerId)
       return "Please select a customer or choose Cash.";
-    if (form.quantity <= 0) return "Quantity must be at least 1.";
+    if (form.quantity <= 0) return "Quantity must be greater than 0.";
     if (!selectedItem) return "Selected item not found.";
-    if (selectedItem.quantity < form.quantity)
-      return "Insufficient stock for the selected item.";
+    if (!hasValidPrecision(form.quantity, selectedItem.unit))
+      return unitPrecision(selectedItem.unit) === 0
+        ? "Quantity must be a whole number for this item."
+        : `Quantity can have at most ${unitPrecision(selectedItem.unit)} decimal places for this item.`;
+    if (hasVariants(selectedItem) && !selectedVariant)
+      return "Please select a variant.";
+    const available = selectedVariant
+      ? variantQuantity(selectedVariant)
+      : availableQuantity(selectedItem);
+    if (available < form.quantity && isBundle(selectedItem))
+      return "Not enough component stock to make up this many bundles.";
+    if (available < form.quantity)
+      return locations.length > 0
+        ? "Insufficient stock at the selected location."
+        : "Insufficient stock for the selected item.";
+    if (selectedItem.trackLots) {
+      if (selectedLot && isExpired(selectedLot))
+        return `Lot ${selectedLot.lotNumber} has expired and cannot be sold.`;
+      if (lotAllocation.shortfall > 0)
+        return selectedLot
+          ? `Only ${formatQuantity(selectedLot.quantity, selectedItem.unit)} left in lot ${selectedLot.lotNumber}.`
+          : "Not enough unexpired stock in the item's lots.";
+    }
     return null;
   };
 
@@ -129,6 +333,21 @@ const SalesPage: React.FC = () => {
     const payload: CreateSalePayload = {
       item: form.itemId,
       quantity: form.quantity,
+      variant: selectedVariant?._id,
+      location: form.locationId || undefined,
+      lots: selectedItem?.trackLots ? lotAllocation.allocations : undefined,
+      variantLabel: selectedVariant
+        ? variantLabel(selectedVariant, selectedItem?.options)
+        : undefined,
+      components: componentDeductions.length ? componentDeductions : undefined,
+      taxRate: selectedItem?.taxRate ?? 0,
+      priceIncludesTax: Boolean(selectedItem?.priceIncludesTax),
+      taxableValue: tax.taxableValue,
+      taxAmount: tax.taxAmount,
+      unitCost:
+        selectedItem && isBundle(selectedItem)
+          ? bundleUnitCost(selectedItem, items)
+          : selectedVariant?.costPrice ?? selectedItem?.costPrice,
       date: form.date,
     };
 
@@ -144,11 +363,11 @@ const SalesPage: React.FC = () => {
 
     try {
       await saleService.createSale(payload);
-      setForm(emptySaleForm());
+      setForm(emptySaleForm(form.locationId));
       // Reload items (stock changed) and sales history
       const [itemsRes, salesRes] = await Promise.all([
-        itemService.getItems({ page: 1, pageSize: 200 }),
-        saleService.getSales({ page, pageSize: meta.pageSize }),
+        itemService.getItems({ page: 1, pageSize: 200, archived: "include" }),
+        saleService.getSales({ page, pageSize: meta.pageSize, ...sort }),
       ]);
       setItems(itemsRes.data);
       setSales(salesRes.data);
@@ -178,6 +397,19 @@ const SalesPage: React.FC = () => {
     return date.toLocaleDateString();
   };
 
+  const getSaleItem = (sale: Sale): Item | undefined =>
+    typeof sale.item === "string"
+      ? items.find((i) => i._id === sale.item)
+      : sale.item;
+
+  const getLocationName = (sale: Sale): string | undefined => {
+    if (!sale.location) return undefined;
+    if (typeof sale.location === "string") {
+      return locations.find((l) => l._id === sale.location)?.name;
+    }
+    return sale.location.name;
+  };
+
   const getItemDisplayName = (sale: Sale): string => {
     if (!sale.item) return "Unknown";
     if (typeof sale.item === "string") {
@@ -187,6 +419,56 @@ const SalesPage: React.FC = () => {
     return sale.item.name ?? "Unknown";
   };
 
+  // Changing the sort reloads from the first page via the effect above
+  const handleSort = (field: SaleSortField): void => {
+    setSort(toggleSort(sort, field));
+    setPage(1);
+  };
+
+  const handleExport = async (format: ExportFormat): Promise<void> => {
+    try {
+      const allSales = await saleService.getAllSales(sort);
+      exportList(
+        allSales,
+        [
+          { key: "date", header: "Date", value: (s) => s.date },
+          { key: "item", header: "Item", value: getItemDisplayName },
+          { key: "variant", header: "Variant", value: (s) => s.variantLabel },
+          { key: "location", header: "Location", value: getLocationName },
+          {
+            key: "lots",
+            header: "Lots",
+            value: (s) => s.lots?.map((l) => l.lotNumber ?? l.lot).join("; "),
+          },
+          {
+            key: "components",
+            header: "Components",
+            value: (s) =>
+              s.components
+                ?.map((c) => `${c.quantity} × ${c.itemName ?? c.item}`)
+                .join("; "),
+          },
+          {
+            key: "customer",
+            header: "Customer",
+            value: (s) => s.customerName ?? "Cash",
+          },
+          { key: "quantity", header: "Quantity", value: (s) => s.quantity },
+          { key: "unit", header: "Unit", value: (s) => getSaleItem(s)?.unit ?? DEFAULT_UNIT },
+          { key: "unitCost", header: "Unit Cost", value: (s) => s.unitCost },
+          { key: "taxableValue", header: "Taxable Value", value: (s) => s.taxableValue },
+          { key: "taxRate", header: "GST Rate", value: (s) => s.taxRate },
+          { key: "taxAmount", header: "GST", value: (s) => s.taxAmount },
+          { key: "totalPrice", header: "Total", value: (s) => s.totalPrice },
+        ],
+        "sales",
+        format
+      );
+    } catch {
+      setError("Failed to export sales. Please try again.");
+    }
+  };
+
   return (
     <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -216,6 +498,49 @@ const SalesPage: React.FC = () => {
           </div>
           <div className="p-6">
             <div className="space-y-5">
+              {locations.length > 0 && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Selling Location
+                  </label>
+                  <select
+                    name="locationId"
+                    value={form.locationId}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                  >
+                    {locations.map((location) => (
+                      <option key={location._id} value={location._id}>
+                        {location.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Scan Barcode / SKU
+                </label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    value={scanCode}
+                    onChange={(e) => setScanCode(e.target.value)}
+                    onKeyDown={handleScanKeyDown}
+                    placeholder="Scan or type a code and press Enter"
+                    autoFocus
+                    className="w-full px-4 py-3 pr-10 border-2 border-amber-200 rounded-xl bg-white font-mono focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                  />
+                  {isLookingUp && (
+                    <svg className="animate-spin absolute right-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-amber-500" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  )}
+                </div>
+              </div>
+
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
                   Item
@@ -229,9 +554,9 @@ const SalesPage: React.FC = () => {
                     required
                   >
                     <option value="">Select item</option>
-                    {items.map((item) => (
+                    {activeItems.map((item) => (
                       <option key={item._id} value={item._id}>
-                        {item.name} (Stock: {item.quantity})
+                        {`${item.name}${item.sku ? ` [${item.sku}]` : ""} (Stock: ${formatQuantity(availableQuantity(item), item.unit)})`}
                       </option>
                     ))}
                   </select>
@@ -241,15 +566,91 @@ const SalesPage: React.FC = () => {
                 </div>
               </div>
 
+              {selectedItem && hasVariants(selectedItem) && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Variant
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {selectedItem.variants?.map((variant) => (
+                      <button
+                        key={variant._id}
+                        type="button"
+                        onClick={() =>
+                          setForm((prev) => ({ ...prev, variantId: variant._id ?? "" }))
+                        }
+                        disabled={variantQuantity(variant) <= 0}
+                        className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                          form.variantId === variant._id
+                            ? "bg-linear-to-r from-amber-500 to-orange-500 text-white shadow-md"
+                            : "bg-amber-50 text-gray-700 border-2 border-amber-200 hover:bg-amber-100"
+                        }`}
+                      >
+                        {variantLabel(variant, selectedItem.options)}
+                        <span className="block text-xs font-normal opacity-80">
+                          ₹ {variant.price.toFixed(2)} ·{" "}
+                          {formatQuantity(variantQuantity(variant), selectedItem.unit)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {selectedItem?.trackLots && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Lot
+                  </label>
+                  <select
+                    name="lotId"
+                    value={form.lotId}
+                    onChange={handleInputChange}
+                    className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                  >
+                    <option value="">First to expire (FEFO)</option>
+                    {sellableLots.map((lot) => (
+                      <option key={lot._id} value={lot._id} disabled={isExpired(lot)}>
+                        {`${lot.lotNumber} · ${isExpired(lot) ? "Expired" : `Exp ${formatExpiry(lot.expiryDate)}`} · ${formatQuantity(lot.quantity, selectedItem.unit)}`}
+                      </option>
+                    ))}
+                  </select>
+                  {lotAllocation.allocations.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Takes{" "}
+                      {lotAllocation.allocations
+                        .map(
+                          (allocation) =>
+                            `${formatQuantity(allocation.quantity, selectedItem.unit)} from ${allocation.lotNumber}`
+                        )
+                        .join(", ")}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {componentDeductions.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Deducts{" "}
+                  {componentDeductions
+                    .map((deduction) => {
+                      const component = items.find((i) => i._id === deduction.item);
+                      return `${formatQuantity(deduction.quantity, component?.unit)} ${deduction.itemName ?? deduction.item}`;
+                    })
+                    .join(", ")}
+                </p>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
                 <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-2">
-                    Quantity
+                    Quantity{selectedItem ? ` (${selectedItem.unit ?? DEFAULT_UNIT})` : ""}
                   </label>
                   <input
                     type="number"
                     name="quantity"
-                    min={1}
+                    min={0}
+                    step={quantityStep(selectedItem?.unit)}
                     value={form.quantity}
                     onChange={handleInputChange}
                     className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
@@ -303,7 +704,7 @@ const SalesPage: React.FC = () => {
                       required={!form.isCash}
                     >
                       <option value="">Select customer</option>
-                      {customers.map((customer) => (
+                      {activeCustomers.map((customer) => (
                         <option key={customer._id} value={customer._id}>
                           {customer.name} ({customer.mobile})
                         </option>
@@ -316,11 +717,23 @@ const SalesPage: React.FC = () => {
                 </div>
               )}
 
-              <div className="bg-linear-to-r from-amber-100 to-orange-100 border-2 border-amber-300 rounded-xl px-5 py-4 flex items-center justify-between">
-                <span className="text-base font-semibold text-gray-700">Total Amount</span>
-                <span className="text-2xl font-bold text-gray-800">
-                  ₹ {totalPrice.toFixed(2)}
-                </span>
+              <div className="bg-linear-to-r from-amber-100 to-orange-100 border-2 border-amber-300 rounded-xl px-5 py-4 space-y-1">
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span>Taxable Value</span>
+                  <span>₹ {tax.taxableValue.toFixed(2)}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span>
+                    {selectedItem ? formatTaxRate(selectedItem) : "GST"}
+                  </span>
+                  <span>₹ {tax.taxAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex items-center justify-between pt-1">
+                  <span className="text-base font-semibold text-gray-700">Total Amount</span>
+                  <span className="text-2xl font-bold text-gray-800">
+                    ₹ {tax.totalPrice.toFixed(2)}
+                  </span>
+                </div>
               </div>
 
               <button
@@ -352,9 +765,12 @@ const SalesPage: React.FC = () => {
         {/* Sales History */}
         <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
           <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex items-center justify-between">
-            <h2 className="text-xl font-semibold text-gray-800">
-              Recent Sales
-            </h2>
+            <div className="flex items-center gap-4">
+              <h2 className="text-xl font-semibold text-gray-800">
+                Recent Sales
+              </h2>
+              <ExportButtons onExport={handleExport} />
+            </div>
             {isLoading && (
               <span className="text-sm text-gray-600 flex items-center gap-2">
                 <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
@@ -369,28 +785,50 @@ const SalesPage: React.FC = () => {
             <table className="min-w-full divide-y-2 divide-amber-200">
               <thead className="bg-linear-to-r from-amber-50 to-orange-50">
                 <tr>
-                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
-                    Date
-                  </th>
+                  <SortableHeader
+                    label="Date"
+                    field="date"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide"
+                  />
                   <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
                     Item
                   </th>
-                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
-                    Customer
-                  </th>
+                  <SortableHeader
+                    label="Customer"
+                    field="customerName"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide"
+                  />
+                  <SortableHeader
+                    label="Quantity"
+                    field="quantity"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide"
+                  />
                   <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
-                    Quantity
+                    Taxable Value
                   </th>
                   <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
-                    Total
+                    GST
                   </th>
+                  <SortableHeader
+                    label="Total"
+                    field="totalPrice"
+                    sort={sort}
+                    onSort={handleSort}
+                    className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide"
+                  />
                 </tr>
               </thead>
               <tbody className="divide-y divide-amber-100 bg-white">
                 {sales.length === 0 && !isLoading ? (
                   <tr>
                     <td
-                      colSpan={5}
+                      colSpan={7}
                       className="px-6 py-12 text-center text-gray-500"
                     >
                       <svg className="mx-auto h-12 w-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -407,12 +845,44 @@ const SalesPage: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
                         {getItemDisplayName(sale)}
+                        {sale.variantLabel && (
+                          <span className="text-gray-400"> · {sale.variantLabel}</span>
+                        )}
+                        {sale.lots && sale.lots.length > 0 && (
+                          <span className="block text-xs text-gray-400">
+                            Lot {sale.lots.map((l) => l.lotNumber ?? l.lot).join(", ")}
+                          </span>
+                        )}
+                        {sale.components && sale.components.length > 0 && (
+                          <span className="block text-xs text-gray-400">
+                            {sale.components
+                              .map((c) => `${c.quantity} × ${c.itemName ?? c.item}`)
+                              .join(", ")}
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
                         {sale.customerName ?? "Cash"}
                       </td>
                       <td className="px-6 py-4 text-sm font-medium text-gray-800 text-right whitespace-nowrap">
-                        {sale.quantity}
+                        {formatQuantity(sale.quantity, getSaleItem(sale)?.unit)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 text-right whitespace-nowrap">
+                        {sale.taxableValue !== undefined
+                          ? `₹ ${sale.taxableValue.toFixed(2)}`
+                          : "-"}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 text-right whitespace-nowrap">
+                        {sale.taxAmount !== undefined ? (
+                          <>
+                            ₹ {sale.taxAmount.toFixed(2)}
+                            <span className="block text-xs text-gray-400">
+                              @ {sale.taxRate ?? 0}%
+                            </span>
+                          </>
+                        ) : (
+                          "-"
+                        )}
                       </td>
                       <td className="px-6 py-4 text-sm font-bold text-gray-800 text-right whitespace-nowrap">
                         ₹ {sale.totalPrice.toFixed(2)}
@@ -2,6 +2,8 @@ import React, { useEffect, useMemo, useState } from "react";
 import { reportService } from "../services/reportService";
 import type { SalesReportEntry, SalesReportResponse } from "../types/report.types";
 import type { SalesReportQuery } from "../services/reportService";
+import { formatMargin, marginPercent } from "../utils/margin";
+import { formatQuantity } from "../utils/units";
 
 type QuickRange = "all" | "today" | "month" | "year" | "custom";
 const PAGE_SIZE = 10;
@@ -97,7 +99,17 @@ const buildQuery = (): SalesReportQuery => {
     return {
       totalSales: totals.totalSales,
       totalRevenue: totals.totalRevenue,
+      // Tax is collected for the government, so profit is worked out before it
+      totalTaxableValue: totals.totalTaxableValue ?? totals.totalRevenue,
+      totalTax: totals.totalTax ?? 0,
       avgSale: totals.avgSale,
+      // Without a cost the profit is unknown, not the whole revenue
+      totalCost: totals.totalCost,
+      grossProfit:
+        totals.grossProfit ??
+        (totals.totalCost !== undefined
+          ? (totals.totalTaxableValue ?? totals.totalRevenue) - totals.totalCost
+          : undefined),
     };
   }, [totals]);
 
@@ -279,7 +291,7 @@ const buildQuery = (): SalesReportQuery => {
         </div>
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <div className="bg-white border-2 border-amber-200 rounded-2xl p-6 shadow-lg">
             <div className="flex items-center justify-between mb-2">
               <p className="text-sm font-semibold text-gray-600 uppercase tracking-wide">Total Sales</p>
@@ -305,6 +317,10 @@ const buildQuery = (): SalesReportQuery => {
             <p className="text-3xl font-bold text-gray-800">
               ₹ {summary.totalRevenue.toFixed(2)}
             </p>
+            <p className="text-sm text-gray-600 mt-1">
+              Taxable ₹ {summary.totalTaxableValue.toFixed(2)} · GST ₹{" "}
+              {summary.totalTax.toFixed(2)}
+            </p>
           </div>
           <div className="bg-white border-2 border-amber-200 rounded-2xl p-6 shadow-lg">
             <div className="flex items-center justify-between mb-2">
@@ -319,6 +335,29 @@ const buildQuery = (): SalesReportQuery => {
               ₹ {summary.avgSale.toFixed(2)}
             </p>
           </div>
+          <div className="bg-white border-2 border-amber-200 rounded-2xl p-6 shadow-lg">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-semibold text-gray-600 uppercase tracking-wide">Gross Profit</p>
+              <div className="w-10 h-10 bg-linear-to-br from-amber-100 to-orange-100 rounded-full flex items-center justify-center">
+                <svg className="w-5 h-5 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                </svg>
+              </div>
+            </div>
+            <p className="text-3xl font-bold text-gray-800">
+              {summary.grossProfit !== undefined
+                ? `₹ ${summary.grossProfit.toFixed(2)}`
+                : "-"}
+            </p>
+            <p className="text-sm text-gray-600 mt-1">
+              Margin{" "}
+              {formatMargin(
+                summary.totalCost !== undefined
+                  ? marginPercent(summary.totalTaxableValue, summary.totalCost)
+                  : null
+              )}
+            </p>
+          </div>
         </div>
 
         {/* Sales Records Table */}
@@ -353,16 +392,25 @@ const buildQuery = (): SalesReportQuery => {
                   <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
                     Quantity
                   </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    GST
+                  </th>
                   <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
                     Total
                   </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Margin
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Gross Profit
+                  </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-amber-100 bg-white">
                 {meta.total === 0 && !isLoading ? (
                   <tr>
                     <td
-                      colSpan={5}
+                      colSpan={8}
                       className="px-6 py-12 text-center text-gray-500"
                     >
                       <svg className="mx-auto h-12 w-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -372,25 +420,54 @@ const buildQuery = (): SalesReportQuery => {
                     </td>
                   </tr>
                 ) : (
-                  pagedData.map((row, index) => (
-                    <tr key={`${row.item}-${row.date}-${index}`} className="hover:bg-amber-50 transition-colors">
-                      <td className="px-6 py-4 text-sm font-medium text-gray-800 whitespace-nowrap">
-                        {formatDate(row.date)}
-                      </td>
-                      <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">{row.item}</td>
-                      <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
-                        {row.customer}
-                      </td>
-                      <td className="px-6 py-4 text-sm font-medium text-gray-800 text-right whitespace-nowrap">
-                        <span className="inline-flex items-center px-3 py-1 rounded-full bg-amber-100 text-amber-800 font-semibold">
-                          {row.quantity}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 text-sm font-bold text-gray-800 text-right whitespace-nowrap">
-                        ₹ {row.totalPrice}
-                      </td>
-                    </tr>
-                  ))
+                  pagedData.map((row, index) => {
+                    const cost =
+                      row.unitCost !== undefined
+                        ? row.unitCost * row.quantity
+                        : undefined;
+                    const revenue = row.taxableValue ?? row.totalPrice;
+                    return (
+                      <tr key={`${row.item}-${row.date}-${index}`} className="hover:bg-amber-50 transition-colors">
+                        <td className="px-6 py-4 text-sm font-medium text-gray-800 whitespace-nowrap">
+                          {formatDate(row.date)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">{row.item}</td>
+                        <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                          {row.customer}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-medium text-gray-800 text-right whitespace-nowrap">
+                          <span className="inline-flex items-center px-3 py-1 rounded-full bg-amber-100 text-amber-800 font-semibold">
+                            {formatQuantity(row.quantity, row.unit)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 text-right whitespace-nowrap">
+                          {row.taxAmount !== undefined ? (
+                            <>
+                              ₹ {row.taxAmount.toFixed(2)}
+                              <span className="block text-xs text-gray-400">
+                                @ {row.taxRate ?? 0}%
+                              </span>
+                            </>
+                          ) : (
+                            "-"
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-bold text-gray-800 text-right whitespace-nowrap">
+                          ₹ {row.totalPrice}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-medium text-gray-700 text-right whitespace-nowrap">
+                          {cost !== undefined
+                            ? formatMargin(marginPercent(revenue, cost))
+                            : "-"}
+                        </td>
+                        <td className="px-6 py-4 text-sm font-medium text-gray-700 text-right whitespace-nowrap">
+                          {cost !== undefined
+                            ? `₹ ${(revenue - cost).toFixed(2)}`
+                            : "-"}
+                        </td>
+                      </tr>
+                    );
+                  })
                 )}
               </tbody>
             </table>
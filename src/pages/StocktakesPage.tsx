@@ -0,0 +1,844 @@
+import React, { useEffect, useState } from "react";
+import { AxiosError } from "axios";
+import {
+  stocktakeService,
+  type StocktakeListResponse,
+} from "../services/stocktakeService";
+import { locationService } from "../services/locationService";
+import { categoryService } from "../services/categoryService";
+import { itemService } from "../services/itemService";
+import type { Item } from "../types/item.types";
+import type { Category } from "../types/category.types";
+import type { Location } from "../types/location.types";
+import type {
+  Stocktake,
+  StocktakeCountPayload,
+  StocktakeLine,
+  StocktakeStatus,
+} from "../types/stocktake.types";
+import { formatQuantity, hasValidPrecision, quantityStep } from "../utils/units";
+import { defaultLocationId } from "../utils/stock";
+import { lineValueImpact, lineVariance, summarizeStocktake } from "../utils/stocktake";
+
+interface StocktakeFormState {
+  locationId: string;
+  categoryId: string;
+  blind: boolean;
+  notes: string;
+}
+
+const emptyStocktakeForm = (locationId = ""): StocktakeFormState => ({
+  locationId,
+  categoryId: "",
+  blind: true,
+  notes: "",
+});
+
+const STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: "Counting",
+  review: "In Review",
+  approved: "Approved",
+  cancelled: "Cancelled",
+};
+
+const STATUS_STYLES: Record<StocktakeStatus, string> = {
+  counting: "bg-blue-100 text-blue-800",
+  review: "bg-amber-100 text-amber-800",
+  approved: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-700",
+};
+
+const formatMoney = (value: number): string =>
+  `${value < 0 ? "-" : ""}₹ ${Math.abs(value).toFixed(2)}`;
+
+// Count inputs are kept as text so an empty box means "not counted"
+const toCountDrafts = (stocktake: Stocktake): Record<string, string> =>
+  Object.fromEntries(
+    stocktake.lines
+      .filter((line) => line._id)
+      .map((line) => [line._id as string, line.countedQuantity?.toString() ?? ""])
+  );
+
+const StocktakesPage: React.FC = () => {
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StocktakeStatus | "">("");
+  const [page, setPage] = useState(1);
+  const [meta, setMeta] = useState<StocktakeListResponse["meta"]>({
+    page: 1,
+    pageSize: 10,
+    total: 0,
+    totalPages: 1,
+  });
+  const [form, setForm] = useState<StocktakeFormState>(() => emptyStocktakeForm());
+  const [active, setActive] = useState<Stocktake | null>(null);
+  const [countDrafts, setCountDrafts] = useState<Record<string, string>>({});
+  const [sheetSearch, setSheetSearch] = useState("");
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStocktakes = async (pageParam?: number): Promise<void> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await stocktakeService.getStocktakes({
+        status: statusFilter || undefined,
+        page: pageParam ?? page,
+        pageSize: meta.pageSize,
+      });
+      setStocktakes(response.data);
+      setMeta(response.meta);
+    } catch {
+      setError("Failed to load stocktakes. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadStocktakes(page);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [page, statusFilter]);
+
+  useEffect(() => {
+    Promise.all([
+      locationService.getLocations({ page: 1, pageSize: 200 }),
+      categoryService.getCategories({ page: 1, pageSize: 200 }),
+      // Stocktake lines outlive archiving, so archived items must still resolve
+      itemService.getItems({ page: 1, pageSize: 200, archived: "include" }),
+    ])
+      .then(([locationsRes, categoriesRes, itemsRes]) => {
+        setLocations(locationsRes.data);
+        setCategories(categoriesRes.data);
+        setItems(itemsRes.data);
+        setForm((prev) => ({
+          ...prev,
+          locationId: prev.locationId || defaultLocationId(locationsRes.data),
+        }));
+      })
+      .catch(() => setError("Failed to load locations, categories and items."));
+  }, []);
+
+  const showStocktake = (stocktake: Stocktake): void => {
+    setActive(stocktake);
+    setCountDrafts(toCountDrafts(stocktake));
+  };
+
+  const getLocationName = (location: string | Location): string => {
+    if (typeof location === "string") {
+      return locations.find((l) => l._id === location)?.name ?? location;
+    }
+    return location.name;
+  };
+
+  const getLineItem = (line: StocktakeLine): Item | undefined =>
+    typeof line.item === "string"
+      ? items.find((i) => i._id === line.item)
+      : line.item;
+
+  const getLineLabel = (line: StocktakeLine): string => {
+    const item = getLineItem(line);
+    const name = item?.name ?? (typeof line.item === "string" ? line.item : "-");
+    const detail = line.variantLabel ?? (line.lotNumber && `Lot ${line.lotNumber}`);
+    return detail ? `${name} (${detail})` : name;
+  };
+
+  const formatDate = (dateString?: string): string => {
+    if (!dateString) return "-";
+    const date = new Date(dateString);
+    if (Number.isNaN(date.getTime())) return dateString;
+    return date.toLocaleDateString();
+  };
+
+  const handleStart = async () => {
+    if (!form.locationId) {
+      setError("Please select a location to count.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const created = await stocktakeService.createStocktake({
+        location: form.locationId,
+        category: form.categoryId || undefined,
+        blind: form.blind,
+        notes: form.notes.trim() || undefined,
+      });
+      setForm(emptyStocktakeForm(form.locationId));
+      showStocktake(created);
+      setPage(1);
+      void loadStocktakes(1);
+    } catch (err: unknown) {
+      let message = "Failed to start stocktake. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpen = async (id: string | undefined): Promise<void> => {
+    if (!id) return;
+    try {
+      setError(null);
+      showStocktake(await stocktakeService.getStocktakeById(id));
+      setSheetSearch("");
+      setUncountedOnly(false);
+    } catch {
+      setError("Failed to load stocktake. Please try again.");
+    }
+  };
+
+  // Lines whose input differs from the last saved count
+  const changedCounts = (): StocktakeCountPayload[] =>
+    (active?.lines ?? []).flatMap((line) => {
+      if (!line._id) return [];
+      const draft = countDrafts[line._id] ?? "";
+      const saved = line.countedQuantity?.toString() ?? "";
+      if (draft.trim() === saved) return [];
+      return [
+        {
+          line: line._id,
+          countedQuantity: draft.trim() === "" ? null : Number(draft),
+        },
+      ];
+    });
+
+  const validateCounts = (counts: StocktakeCountPayload[]): string | null => {
+    for (const count of counts) {
+      if (count.countedQuantity === null) continue;
+      const line = active?.lines.find((l) => l._id === count.line);
+      const label = line ? getLineLabel(line) : "a line";
+      if (Number.isNaN(count.countedQuantity) || count.countedQuantity < 0)
+        return `Enter a count of zero or more for ${label}.`;
+      if (line && !hasValidPrecision(count.countedQuantity, getLineItem(line)?.unit))
+        return `The count for ${label} has more decimal places than its unit allows.`;
+    }
+    return null;
+  };
+
+  // Saves pending counts; resolves to the updated stocktake, or null on failure
+  const saveCounts = async (): Promise<Stocktake | null> => {
+    if (!active?._id) return null;
+    const counts = changedCounts();
+    if (counts.length === 0) return active;
+    const validationError = validateCounts(counts);
+    if (validationError) {
+      setError(validationError);
+      return null;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await stocktakeService.saveCounts(active._id, counts);
+      showStocktake(updated);
+      return updated;
+    } catch (err: unknown) {
+      let message = "Failed to save counts. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (
+    status: "review" | "counting" | "approved" | "cancelled"
+  ): Promise<void> => {
+    if (!active?._id) return;
+    const id = active._id;
+
+    let current: Stocktake | null = active;
+    if (status === "review") {
+      current = await saveCounts();
+      if (!current) return;
+      const uncounted = current.lines.filter(
+        (line) => lineVariance(line) === undefined
+      ).length;
+      if (
+        uncounted > 0 &&
+        !window.confirm(
+          `${uncounted} lines have not been counted. Finish counting anyway? Uncounted lines are left unchanged on approval.`
+        )
+      )
+        return;
+    }
+    if (status === "approved") {
+      const summary = summarizeStocktake(active.lines);
+      const confirmed = window.confirm(
+        `Approve this stocktake? ${summary.varianceCount} of ${summary.countedCount} counted lines will be corrected, a net value impact of ${formatMoney(summary.netValue)}. ${summary.lineCount - summary.countedCount} uncounted lines are left unchanged.`
+      );
+      if (!confirmed) return;
+    }
+    if (
+      status === "cancelled" &&
+      !window.confirm("Cancel this stocktake? Counts are discarded and stock is not changed.")
+    )
+      return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      let updated: Stocktake;
+      if (status === "review") updated = await stocktakeService.finishCounting(id);
+      else if (status === "counting")
+        updated = await stocktakeService.reopenCounting(id);
+      else if (status === "approved")
+        updated = await stocktakeService.approveStocktake(id);
+      else updated = await stocktakeService.cancelStocktake(id);
+      showStocktake(updated);
+      void loadStocktakes();
+    } catch (err: unknown) {
+      let message = "Failed to update stocktake. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isCounting = active?.status === "counting";
+  // Blind counts keep expected quantities out of sight until counting ends
+  const hideExpected = Boolean(active?.blind && isCounting);
+  const summary = active ? summarizeStocktake(active.lines) : null;
+  const sheetLines = (active?.lines ?? []).filter((line) => {
+    if (uncountedOnly && lineVariance(line) !== undefined) return false;
+    if (!sheetSearch.trim()) return true;
+    const query = sheetSearch.trim().toLowerCase();
+    const item = getLineItem(line);
+    return (
+      getLineLabel(line).toLowerCase().includes(query) ||
+      Boolean(item?.sku?.toLowerCase().includes(query))
+    );
+  });
+  const pendingCount = active ? changedCounts().length : 0;
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 tracking-tight">
+              Stocktakes
+            </h1>
+            <p className="text-gray-600 text-sm mt-1">
+              Count what is on the shelves, review the variances and post
+              corrections when the count is approved.
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg shadow-sm flex items-start gap-3">
+            <svg className="w-5 h-5 mt-0.5 shrink-0" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+            </svg>
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* New Stocktake */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+            <h2 className="text-xl font-semibold text-gray-800">New Stocktake</h2>
+          </div>
+          <div className="p-6 space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Location
+                </label>
+                <select
+                  value={form.locationId}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, locationId: e.target.value }))
+                  }
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                >
+                  <option value="">Select location</option>
+                  {locations.map((location) => (
+                    <option key={location._id} value={location._id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Category
+                </label>
+                <select
+                  value={form.categoryId}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, categoryId: e.target.value }))
+                  }
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                >
+                  <option value="">All categories</option>
+                  {categories.map((category) => (
+                    <option key={category._id} value={category._id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Notes
+              </label>
+              <textarea
+                value={form.notes}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, notes: e.target.value }))
+                }
+                rows={2}
+                placeholder="e.g. Monthly count, aisle 3"
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent resize-none transition-all"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <label className="inline-flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.blind}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, blind: e.target.checked }))
+                  }
+                  className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400"
+                />
+                Blind count (hide expected quantities while counting)
+              </label>
+              <button
+                type="button"
+                onClick={handleStart}
+                disabled={isSubmitting}
+                className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-semibold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg"
+              >
+                {isSubmitting ? "Starting..." : "Start Stocktake"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Count Sheet */}
+        {active && summary && (
+          <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+            <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800 flex items-center gap-3">
+                  {active.stocktakeNumber ?? active._id}
+                  <span
+                    className={`inline-flex px-3 py-1 rounded-full text-xs font-bold ${STATUS_STYLES[active.status]}`}
+                  >
+                    {STATUS_LABELS[active.status]}
+                  </span>
+                  {active.blind && (
+                    <span className="inline-flex px-3 py-1 rounded-full text-xs font-bold bg-gray-100 text-gray-700">
+                      Blind
+                    </span>
+                  )}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {getLocationName(active.location)} · started{" "}
+                  {formatDate(active.createdAt)}
+                  {active.createdBy ? ` by ${active.createdBy}` : ""}
+                  {active.status === "approved" &&
+                    ` · approved ${formatDate(active.approvedAt)}${
+                      active.approvedBy ? ` by ${active.approvedBy}` : ""
+                    }`}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {isCounting && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => void saveCounts()}
+                      disabled={isSaving || pendingCount === 0}
+                      className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    >
+                      {isSaving
+                        ? "Saving..."
+                        : `Save Counts${pendingCount ? ` (${pendingCount})` : ""}`}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleStatusChange("review")}
+                      disabled={isSaving}
+                      className="px-4 py-2 rounded-lg border-2 border-blue-300 bg-blue-50 text-sm font-semibold text-blue-700 hover:bg-blue-100 disabled:opacity-50 transition-all"
+                    >
+                      Finish Counting
+                    </button>
+                  </>
+                )}
+                {active.status === "review" && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleStatusChange("counting")}
+                      disabled={isSaving}
+                      className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 transition-all"
+                    >
+                      Reopen Counting
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleStatusChange("approved")}
+                      disabled={isSaving}
+                      className="px-4 py-2 rounded-lg border-2 border-green-300 bg-green-50 text-sm font-semibold text-green-700 hover:bg-green-100 disabled:opacity-50 transition-all"
+                    >
+                      Approve &amp; Post Adjustments
+                    </button>
+                  </>
+                )}
+                {(isCounting || active.status === "review") && (
+                  <button
+                    type="button"
+                    onClick={() => handleStatusChange("cancelled")}
+                    disabled={isSaving}
+                    className="px-4 py-2 rounded-lg border-2 border-red-300 bg-red-50 text-sm font-semibold text-red-600 hover:bg-red-100 disabled:opacity-50 transition-all"
+                  >
+                    Cancel Stocktake
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setActive(null)}
+                  className="text-gray-500 hover:text-gray-800 text-2xl leading-none px-2"
+                  title="Close"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-5">
+              {/* Variance summary */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <div className="rounded-xl border-2 border-amber-100 px-4 py-3">
+                  <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">
+                    Counted
+                  </p>
+                  <p className="text-lg font-bold text-gray-800">
+                    {summary.countedCount} / {summary.lineCount}
+                  </p>
+                </div>
+                {!hideExpected && (
+                  <>
+                    <div className="rounded-xl border-2 border-amber-100 px-4 py-3">
+                      <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">
+                        With Variance
+                      </p>
+                      <p className="text-lg font-bold text-gray-800">
+                        {summary.varianceCount}
+                      </p>
+                    </div>
+                    <div className="rounded-xl border-2 border-green-100 px-4 py-3">
+                      <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">
+                        Gains
+                      </p>
+                      <p className="text-lg font-bold text-green-700">
+                        {formatMoney(summary.gainValue)}
+                      </p>
+                    </div>
+                    <div className="rounded-xl border-2 border-red-100 px-4 py-3">
+                      <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">
+                        Losses
+                      </p>
+                      <p className="text-lg font-bold text-red-700">
+                        {formatMoney(-summary.lossValue)}
+                      </p>
+                    </div>
+                    <div className="rounded-xl border-2 border-amber-100 px-4 py-3">
+                      <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">
+                        Net Impact
+                      </p>
+                      <p
+                        className={`text-lg font-bold ${
+                          summary.netValue < 0 ? "text-red-700" : "text-gray-800"
+                        }`}
+                      >
+                        {formatMoney(summary.netValue)}
+                      </p>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <input
+                  type="text"
+                  value={sheetSearch}
+                  onChange={(e) => setSheetSearch(e.target.value)}
+                  placeholder="Find an item or SKU..."
+                  className="w-full sm:w-80 px-4 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 text-sm focus:outline-none focus:ring-2 focus:ring-amber-400"
+                />
+                <label className="inline-flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={uncountedOnly}
+                    onChange={(e) => setUncountedOnly(e.target.checked)}
+                    className="w-4 h-4 rounded border-2 border-amber-300 text-amber-500 focus:ring-amber-400"
+                  />
+                  Uncounted only
+                </label>
+              </div>
+
+              <div className="overflow-x-auto border-2 border-amber-100 rounded-xl">
+                <table className="min-w-full divide-y divide-amber-100 text-sm">
+                  <thead className="bg-amber-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-bold text-gray-700">Item</th>
+                      {!hideExpected && (
+                        <th className="px-4 py-3 text-right font-bold text-gray-700">
+                          Expected
+                        </th>
+                      )}
+                      <th className="px-4 py-3 text-right font-bold text-gray-700 w-40">
+                        Counted
+                      </th>
+                      {!hideExpected && (
+                        <>
+                          <th className="px-4 py-3 text-right font-bold text-gray-700">
+                            Variance
+                          </th>
+                          <th className="px-4 py-3 text-right font-bold text-gray-700">
+                            Value Impact
+                          </th>
+                        </>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-amber-100">
+                    {sheetLines.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={hideExpected ? 2 : 5}
+                          className="px-4 py-8 text-center text-gray-500"
+                        >
+                          No lines to show.
+                        </td>
+                      </tr>
+                    ) : (
+                      sheetLines.map((line, index) => {
+                        const item = getLineItem(line);
+                        const variance = lineVariance(line);
+                        return (
+                          <tr key={line._id ?? index}>
+                            <td className="px-4 py-2 text-gray-800">
+                              <div className="font-medium">{getLineLabel(line)}</div>
+                              {item?.sku && (
+                                <div className="font-mono text-xs text-gray-500">
+                                  {item.sku}
+                                </div>
+                              )}
+                            </td>
+                            {!hideExpected && (
+                              <td className="px-4 py-2 text-right text-gray-600 whitespace-nowrap">
+                                {formatQuantity(line.expectedQuantity, item?.unit)}
+                              </td>
+                            )}
+                            <td className="px-4 py-2 text-right whitespace-nowrap">
+                              {isCounting && line._id ? (
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={quantityStep(item?.unit)}
+                                  value={countDrafts[line._id] ?? ""}
+                                  onChange={(e) =>
+                                    setCountDrafts((prev) => ({
+                                      ...prev,
+                                      [line._id as string]: e.target.value,
+                                    }))
+                                  }
+                                  placeholder="Not counted"
+                                  className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 text-right focus:outline-none focus:ring-2 focus:ring-amber-400"
+                                />
+                              ) : line.countedQuantity !== undefined &&
+                                line.countedQuantity !== null ? (
+                                formatQuantity(line.countedQuantity, item?.unit)
+                              ) : (
+                                <span className="text-gray-400 italic">Not counted</span>
+                              )}
+                            </td>
+                            {!hideExpected && (
+                              <>
+                                <td
+                                  className={`px-4 py-2 text-right font-semibold whitespace-nowrap ${
+                                    variance === undefined || variance === 0
+                                      ? "text-gray-500"
+                                      : variance > 0
+                                      ? "text-green-700"
+                                      : "text-red-700"
+                                  }`}
+                                >
+                                  {variance === undefined
+                                    ? "-"
+                                    : `${variance > 0 ? "+" : ""}${formatQuantity(variance, item?.unit)}`}
+                                </td>
+                                <td className="px-4 py-2 text-right text-gray-700 whitespace-nowrap">
+                                  {variance === undefined
+                                    ? "-"
+                                    : formatMoney(lineValueImpact(line))}
+                                </td>
+                              </>
+                            )}
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Stocktakes List */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h2 className="text-xl font-semibold text-gray-800">Stocktakes</h2>
+            <div className="flex items-center gap-3">
+              {isLoading && (
+                <span className="text-sm text-gray-600">Loading...</span>
+              )}
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as StocktakeStatus | "");
+                  setPage(1);
+                }}
+                className="px-3 py-2 border-2 border-amber-200 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-400"
+              >
+                <option value="">All statuses</option>
+                {(Object.keys(STATUS_LABELS) as StocktakeStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y-2 divide-amber-200">
+              <thead className="bg-linear-to-r from-amber-50 to-orange-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Stocktake
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Location
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Progress
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Status
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100 bg-white">
+                {stocktakes.length === 0 && !isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                      <p className="text-base font-medium">No stocktakes found.</p>
+                    </td>
+                  </tr>
+                ) : (
+                  stocktakes.map((stocktake) => {
+                    const progress = summarizeStocktake(stocktake.lines);
+                    return (
+                      <tr
+                        key={stocktake._id}
+                        className={`hover:bg-amber-50 transition-colors ${
+                          active?._id === stocktake._id ? "bg-amber-50" : ""
+                        }`}
+                      >
+                        <td className="px-6 py-4 text-sm text-gray-800 whitespace-nowrap">
+                          <div className="font-semibold">
+                            {stocktake.stocktakeNumber ?? stocktake._id}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {formatDate(stocktake.createdAt)}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                          {getLocationName(stocktake.location)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                          {progress.countedCount} of {progress.lineCount} counted
+                        </td>
+                        <td className="px-6 py-4 text-sm whitespace-nowrap">
+                          <span
+                            className={`inline-flex px-3 py-1 rounded-full text-xs font-bold ${STATUS_STYLES[stocktake.status]}`}
+                          >
+                            {STATUS_LABELS[stocktake.status]}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => handleOpen(stocktake._id)}
+                            className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-amber-300 text-xs font-semibold text-amber-700 bg-amber-50 hover:bg-amber-100 transition-all"
+                          >
+                            {stocktake.status === "counting" ? "Count" : "View"}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div className="bg-linear-to-r from-amber-50 to-orange-50 px-6 py-4 border-t-2 border-amber-200 flex flex-col sm:flex-row items-center justify-between gap-4">
+            <span className="text-sm font-medium text-gray-700">
+              Page {meta.page} of {meta.totalPages} ({meta.total} total)
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                ← Prev
+              </button>
+              <button
+                onClick={() => setPage((p) => Math.min(meta.totalPages, p + 1))}
+                disabled={page >= meta.totalPages}
+                className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Next →
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StocktakesPage;
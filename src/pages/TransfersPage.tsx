@@ -0,0 +1,717 @@
+import React, { useEffect, useState } from "react";
+import { AxiosError } from "axios";
+import {
+  stockTransferService,
+  type StockTransferListResponse,
+} from "../services/stockTransferService";
+import { locationService } from "../services/locationService";
+import { itemService } from "../services/itemService";
+import type { Item } from "../types/item.types";
+import type { Location } from "../types/location.types";
+import type {
+  StockTransfer,
+  StockTransferLine,
+  StockTransferPayload,
+  StockTransferStatus,
+} from "../types/stockTransfer.types";
+import { formatQuantity, hasValidPrecision, quantityStep } from "../utils/units";
+import { defaultLocationId, quantityAtLocation } from "../utils/stock";
+import { hasVariants, variantLabel } from "../utils/variants";
+import { isBundle } from "../utils/bundles";
+import { formatExpiry, lotsAtLocation, sortLotsByExpiry } from "../utils/lots";
+
+interface LineFormState {
+  itemId: string;
+  variantId: string;
+  lotId: string;
+  quantity: number;
+}
+
+interface TransferFormState {
+  fromLocationId: string;
+  toLocationId: string;
+  notes: string;
+  lines: LineFormState[];
+}
+
+const emptyLine = (): LineFormState => ({
+  itemId: "",
+  variantId: "",
+  lotId: "",
+  quantity: 1,
+});
+
+const emptyTransferForm = (fromLocationId = ""): TransferFormState => ({
+  fromLocationId,
+  toLocationId: "",
+  notes: "",
+  lines: [emptyLine()],
+});
+
+const STATUS_LABELS: Record<StockTransferStatus, string> = {
+  draft: "Draft",
+  sent: "In Transit",
+  received: "Received",
+};
+
+const STATUS_STYLES: Record<StockTransferStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  sent: "bg-blue-100 text-blue-800",
+  received: "bg-green-100 text-green-800",
+};
+
+const TransfersPage: React.FC = () => {
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StockTransferStatus | "">("");
+  const [page, setPage] = useState(1);
+  const [meta, setMeta] = useState<StockTransferListResponse["meta"]>({
+    page: 1,
+    pageSize: 10,
+    total: 0,
+    totalPages: 1,
+  });
+  const [form, setForm] = useState<TransferFormState>(() => emptyTransferForm());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTransfers = async (pageParam?: number): Promise<void> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await stockTransferService.getTransfers({
+        status: statusFilter || undefined,
+        page: pageParam ?? page,
+        pageSize: meta.pageSize,
+      });
+      setTransfers(response.data);
+      setMeta(response.meta);
+    } catch {
+      setError("Failed to load transfers. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Items are reloaded after sending so the source stock shown is current
+  const loadItems = async (): Promise<void> => {
+    const response = await itemService.getItems({
+      page: 1,
+      pageSize: 200,
+      archived: "include",
+    });
+    setItems(response.data);
+  };
+
+  useEffect(() => {
+    void loadTransfers(page);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [page, statusFilter]);
+
+  useEffect(() => {
+    Promise.all([
+      locationService.getLocations({ page: 1, pageSize: 200 }),
+      itemService.getItems({ page: 1, pageSize: 200, archived: "include" }),
+    ])
+      .then(([locationsRes, itemsRes]) => {
+        setLocations(locationsRes.data);
+        setItems(itemsRes.data);
+        setForm((prev) => ({
+          ...prev,
+          fromLocationId: prev.fromLocationId || defaultLocationId(locationsRes.data),
+        }));
+      })
+      .catch(() => setError("Failed to load locations and items."));
+  }, []);
+
+  const getLocationName = (location: string | Location): string => {
+    if (typeof location === "string") {
+      return locations.find((l) => l._id === location)?.name ?? location;
+    }
+    return location.name;
+  };
+
+  const getLineItem = (line: StockTransferLine): Item | undefined =>
+    typeof line.item === "string"
+      ? items.find((i) => i._id === line.item)
+      : line.item;
+
+  const getLineLabel = (line: StockTransferLine): string => {
+    const item = getLineItem(line);
+    if (!item) return typeof line.item === "string" ? line.item : "-";
+    const variant = item.variants?.find((v) => v._id === line.variant);
+    const name = variant
+      ? `${item.name} (${variantLabel(variant, item.options)})`
+      : item.name;
+    return line.lot ? `${name} · Lot ${line.lotNumber ?? line.lot}` : name;
+  };
+
+  const formatDate = (dateString?: string): string => {
+    if (!dateString) return "-";
+    const date = new Date(dateString);
+    if (Number.isNaN(date.getTime())) return dateString;
+    return date.toLocaleDateString();
+  };
+
+  // Lots of a lot-tracked item held at the source, earliest expiry first
+  const sourceLots = (item: Item) =>
+    sortLotsByExpiry(lotsAtLocation(item, form.fromLocationId || undefined));
+
+  // Stock that can leave the source location for one form line
+  const availableForLine = (line: LineFormState): number | undefined => {
+    const item = items.find((it) => it._id === line.itemId);
+    if (!item) return undefined;
+    if (item.trackLots) {
+      return sourceLots(item).find((lot) => lot._id === line.lotId)?.quantity;
+    }
+    const variant = item.variants?.find((v) => v._id === line.variantId);
+    return quantityAtLocation(variant ?? item, form.fromLocationId || undefined);
+  };
+
+  const handleLineChange = (
+    index: number,
+    field: keyof LineFormState,
+    value: string
+  ) => {
+    setForm((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => {
+        if (i !== index) return line;
+        if (field === "itemId")
+          return { ...line, itemId: value, variantId: "", lotId: "" };
+        if (field === "variantId") return { ...line, variantId: value };
+        if (field === "lotId") return { ...line, lotId: value };
+        return { ...line, quantity: Number(value) || 0 };
+      }),
+    }));
+  };
+
+  const handleAddLine = () => {
+    setForm((prev) => ({ ...prev, lines: [...prev.lines, emptyLine()] }));
+  };
+
+  const handleRemoveLine = (index: number) => {
+    setForm((prev) => ({
+      ...prev,
+      lines: prev.lines.filter((_, i) => i !== index),
+    }));
+  };
+
+  const validateForm = (sending: boolean): string | null => {
+    if (!form.fromLocationId) return "Please select a source location.";
+    if (!form.toLocationId) return "Please select a destination location.";
+    if (form.fromLocationId === form.toLocationId)
+      return "Source and destination must be different locations.";
+    if (form.lines.length === 0) return "Add at least one item line.";
+    const seen = new Set<string>();
+    for (const line of form.lines) {
+      if (!line.itemId) return "Please select an item on every line.";
+      const item = items.find((it) => it._id === line.itemId);
+      if (item && hasVariants(item) && !line.variantId)
+        return `Please select a variant for ${item.name}.`;
+      if (item?.trackLots && !line.lotId)
+        return `Please select a lot for ${item.name}.`;
+      const key = `${line.itemId}:${line.variantId}:${line.lotId}`;
+      if (seen.has(key)) return "Each item can only appear once per transfer.";
+      seen.add(key);
+      if (line.quantity <= 0) return "Line quantities must be greater than 0.";
+      if (!hasValidPrecision(line.quantity, item?.unit))
+        return "A line quantity has more decimal places than its unit allows.";
+      const available = availableForLine(line);
+      // Drafts may be planned ahead of stock arriving at the source
+      if (sending && available !== undefined && line.quantity > available)
+        return `Only ${formatQuantity(available, item?.unit)} of ${item?.name} available at the source location.`;
+    }
+    return null;
+  };
+
+  const handleSubmit = async (status: "draft" | "sent") => {
+    const validationError = validateForm(status === "sent");
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    const payload: StockTransferPayload = {
+      fromLocation: form.fromLocationId,
+      toLocation: form.toLocationId,
+      lines: form.lines.map((line) => ({
+        item: line.itemId,
+        variant: line.variantId || undefined,
+        lot: line.lotId || undefined,
+        quantity: line.quantity,
+      })),
+      notes: form.notes.trim() || undefined,
+      status,
+    };
+
+    try {
+      await stockTransferService.createTransfer(payload);
+      setForm(emptyTransferForm(form.fromLocationId));
+      setPage(1);
+      void loadTransfers(1);
+      if (status === "sent") void loadItems();
+    } catch (err: unknown) {
+      let message = "Failed to save transfer. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStatusChange = async (
+    id: string | undefined,
+    status: "sent" | "received"
+  ): Promise<void> => {
+    if (!id) return;
+    const confirmed = window.confirm(
+      status === "sent"
+        ? "Send this transfer? The quantities will be taken out of the source location."
+        : "Mark this transfer as received? The quantities will be added to the destination location."
+    );
+    if (!confirmed) return;
+
+    try {
+      if (status === "sent") {
+        await stockTransferService.sendTransfer(id);
+      } else {
+        await stockTransferService.receiveTransfer(id);
+      }
+      void loadTransfers();
+      void loadItems();
+    } catch (err: unknown) {
+      let message = "Failed to update transfer. Please try again.";
+      if (err instanceof AxiosError) {
+        message =
+          err.response?.data?.error || err.response?.data?.message || message;
+      }
+      setError(message);
+    }
+  };
+
+  const handleDelete = async (id: string | undefined): Promise<void> => {
+    if (!id) return;
+    const confirmed = window.confirm(
+      "Are you sure you want to delete this draft transfer?"
+    );
+    if (!confirmed) return;
+
+    try {
+      await stockTransferService.deleteTransfer(id);
+      void loadTransfers();
+    } catch {
+      setError("Failed to delete transfer. Please try again.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-amber-50 via-orange-50 to-yellow-50 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 tracking-tight">
+              Stock Transfers
+            </h1>
+            <p className="text-gray-600 text-sm mt-1">
+              Move stock between locations. Quantities leave the source when a
+              transfer is sent and arrive when it is received.
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-500 text-red-700 px-4 py-3 rounded-lg shadow-sm flex items-start gap-3">
+            <svg className="w-5 h-5 mt-0.5 shrink-0" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+            </svg>
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Transfer Form */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200">
+            <h2 className="text-xl font-semibold text-gray-800">New Transfer</h2>
+          </div>
+          <div className="p-6 space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  From
+                </label>
+                <select
+                  value={form.fromLocationId}
+                  onChange={(e) =>
+                    // Lots are picked from what the source holds
+                    setForm((prev) => ({
+                      ...prev,
+                      fromLocationId: e.target.value,
+                      lines: prev.lines.map((line) => ({ ...line, lotId: "" })),
+                    }))
+                  }
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                >
+                  <option value="">Select source</option>
+                  {locations.map((location) => (
+                    <option key={location._id} value={location._id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  To
+                </label>
+                <select
+                  value={form.toLocationId}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, toLocationId: e.target.value }))
+                  }
+                  className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all"
+                >
+                  <option value="">Select destination</option>
+                  {locations
+                    .filter((location) => location._id !== form.fromLocationId)
+                    .map((location) => (
+                      <option key={location._id} value={location._id}>
+                        {location.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="border-2 border-amber-100 rounded-xl overflow-hidden">
+              <table className="min-w-full divide-y divide-amber-100 text-sm">
+                <thead className="bg-amber-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-bold text-gray-700">
+                      Item
+                    </th>
+                    <th className="px-4 py-3 text-left font-bold text-gray-700 w-48">
+                      Variant
+                    </th>
+                    <th className="px-4 py-3 text-left font-bold text-gray-700 w-56">
+                      Lot
+                    </th>
+                    <th className="px-4 py-3 text-right font-bold text-gray-700 w-36">
+                      At Source
+                    </th>
+                    <th className="px-4 py-3 text-right font-bold text-gray-700 w-32">
+                      Quantity
+                    </th>
+                    <th className="px-4 py-3 w-12"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-amber-100">
+                  {form.lines.map((line, index) => {
+                    const item = items.find((it) => it._id === line.itemId);
+                    const available = availableForLine(line);
+                    return (
+                      <tr key={index}>
+                        <td className="px-4 py-2">
+                          <select
+                            value={line.itemId}
+                            onChange={(e) =>
+                              handleLineChange(index, "itemId", e.target.value)
+                            }
+                            className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                          >
+                            <option value="">Select item</option>
+                            {items
+                              // Bundles hold no stock of their own to move
+                              .filter((it) => !it.archivedAt && !isBundle(it))
+                              .map((it) => (
+                                <option key={it._id} value={it._id}>
+                                  {it.name}
+                                </option>
+                              ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2">
+                          {item && hasVariants(item) ? (
+                            <select
+                              value={line.variantId}
+                              onChange={(e) =>
+                                handleLineChange(index, "variantId", e.target.value)
+                              }
+                              className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                            >
+                              <option value="">Select variant</option>
+                              {item.variants?.map((variant) => (
+                                <option key={variant._id} value={variant._id}>
+                                  {variantLabel(variant, item.options)}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          {item?.trackLots ? (
+                            <select
+                              value={line.lotId}
+                              onChange={(e) =>
+                                handleLineChange(index, "lotId", e.target.value)
+                              }
+                              className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                            >
+                              <option value="">Select lot</option>
+                              {sourceLots(item).map((lot) => (
+                                <option key={lot._id} value={lot._id}>
+                                  {`${lot.lotNumber} · ${formatExpiry(lot.expiryDate)}`}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-600 whitespace-nowrap">
+                          {available !== undefined
+                            ? formatQuantity(available, item?.unit)
+                            : "-"}
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step={quantityStep(item?.unit)}
+                            value={line.quantity}
+                            onChange={(e) =>
+                              handleLineChange(index, "quantity", e.target.value)
+                            }
+                            className="w-full px-3 py-2 border-2 border-amber-200 rounded-lg bg-amber-50 text-right focus:outline-none focus:ring-2 focus:ring-amber-400"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveLine(index)}
+                            disabled={form.lines.length === 1}
+                            className="text-red-500 hover:text-red-700 disabled:opacity-30 disabled:cursor-not-allowed text-lg font-bold"
+                            title="Remove line"
+                          >
+                            ×
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div className="px-4 py-3 bg-amber-50 border-t-2 border-amber-100">
+                <button
+                  type="button"
+                  onClick={handleAddLine}
+                  className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-100 transition-all"
+                >
+                  + Add Line
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Notes
+              </label>
+              <textarea
+                value={form.notes}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, notes: e.target.value }))
+                }
+                rows={2}
+                className="w-full px-4 py-3 border-2 border-amber-200 rounded-xl bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent resize-none transition-all"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+              <button
+                type="button"
+                onClick={() => handleSubmit("sent")}
+                disabled={isSubmitting}
+                className="px-6 py-3 rounded-xl bg-linear-to-r from-amber-500 to-orange-500 text-white text-sm font-semibold hover:from-amber-600 hover:to-orange-600 disabled:opacity-60 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg"
+              >
+                {isSubmitting ? "Saving..." : "Send Transfer"}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleSubmit("draft")}
+                disabled={isSubmitting}
+                className="px-6 py-3 rounded-xl border-2 border-amber-300 text-sm font-semibold text-gray-700 bg-white hover:bg-amber-50 disabled:opacity-60 disabled:cursor-not-allowed transition-all"
+              >
+                Save as Draft
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Transfers List */}
+        <div className="bg-white border-2 border-amber-200 rounded-2xl shadow-lg overflow-hidden">
+          <div className="bg-linear-to-r from-amber-100 to-orange-100 px-6 py-4 border-b-2 border-amber-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <h2 className="text-xl font-semibold text-gray-800">Transfers</h2>
+            <div className="flex items-center gap-3">
+              {isLoading && (
+                <span className="text-sm text-gray-600">Loading...</span>
+              )}
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as StockTransferStatus | "");
+                  setPage(1);
+                }}
+                className="px-3 py-2 border-2 border-amber-200 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-400"
+              >
+                <option value="">All statuses</option>
+                {(Object.keys(STATUS_LABELS) as StockTransferStatus[]).map(
+                  (status) => (
+                    <option key={status} value={status}>
+                      {STATUS_LABELS[status]}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y-2 divide-amber-200">
+              <thead className="bg-linear-to-r from-amber-50 to-orange-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Transfer
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Route
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Items
+                  </th>
+                  <th className="px-6 py-4 text-left text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Status
+                  </th>
+                  <th className="px-6 py-4 text-right text-sm font-bold text-gray-700 uppercase tracking-wide">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100 bg-white">
+                {transfers.length === 0 && !isLoading ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                      <p className="text-base font-medium">No transfers found.</p>
+                    </td>
+                  </tr>
+                ) : (
+                  transfers.map((transfer) => (
+                    <tr key={transfer._id} className="hover:bg-amber-50 transition-colors">
+                      <td className="px-6 py-4 text-sm text-gray-800 whitespace-nowrap">
+                        <div className="font-semibold">
+                          {transfer.transferNumber ?? transfer._id}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {formatDate(transfer.createdAt)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                        {getLocationName(transfer.fromLocation)} →{" "}
+                        {getLocationName(transfer.toLocation)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {transfer.lines.map((line, index) => (
+                          <div key={line._id ?? index}>
+                            {getLineLabel(line)} ×{" "}
+                            {formatQuantity(line.quantity, getLineItem(line)?.unit)}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 text-sm whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-3 py-1 rounded-full text-xs font-bold ${STATUS_STYLES[transfer.status]}`}
+                        >
+                          {STATUS_LABELS[transfer.status]}
+                        </span>
+                        {transfer.status === "sent" && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Sent {formatDate(transfer.sentAt)}
+                          </div>
+                        )}
+                        {transfer.status === "received" && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Received {formatDate(transfer.receivedAt)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right whitespace-nowrap">
+                        <div className="flex items-center justify-end gap-2">
+                          {transfer.status === "draft" && (
+                            <>
+                              <button
+                                onClick={() => handleStatusChange(transfer._id, "sent")}
+                                className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-blue-300 text-xs font-semibold text-blue-700 bg-blue-50 hover:bg-blue-100 transition-all"
+                              >
+                                Send
+                              </button>
+                              <button
+                                onClick={() => handleDelete(transfer._id)}
+                                className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-red-300 text-xs font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-all"
+                              >
+                                Delete
+                              </button>
+                            </>
+                          )}
+                          {transfer.status === "sent" && (
+                            <button
+                              onClick={() => handleStatusChange(transfer._id, "received")}
+                              className="inline-flex items-center px-4 py-2 rounded-lg border-2 border-green-300 text-xs font-semibold text-green-700 bg-green-50 hover:bg-green-100 transition-all"
+                            >
+                              Receive
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div className="bg-linear-to-r from-amber-50 to-orange-50 px-6 py-4 border-t-2 border-amber-200 flex flex-col sm:flex-row items-center justify-between gap-4">
+            <span className="text-sm font-medium text-gray-700">
+              Page {meta.page} of {meta.totalPages} ({meta.total} total)
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                ← Prev
+              </button>
+              <button
+                onClick={() => setPage((p) => Math.min(meta.totalPages, p + 1))}
+                disabled={page >= meta.totalPages}
+                className="px-4 py-2 rounded-lg border-2 border-amber-300 bg-white text-sm font-semibold text-gray-700 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Next →
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransfersPage;
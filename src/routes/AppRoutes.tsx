@@ -5,7 +5,15 @@ import LoginPage from "../pages/LoginPage";
 
 import Dashboard from "../pages/Dashboard";
 import ItemsPage from "../pages/ItemsPage";
+import ItemDetailPage from "../pages/ItemDetailPage";
+import CategoriesPage from "../pages/CategoriesPage";
+import LocationsPage from "../pages/LocationsPage";
+import TransfersPage from "../pages/TransfersPage";
+import StocktakesPage from "../pages/StocktakesPage";
+import LabelPrintPage from "../pages/LabelPrintPage";
 import CustomersPage from "../pages/CustomersPage";
+import SuppliersPage from "../pages/SuppliersPage";
+import PurchasesPage from "../pages/PurchasesPage";
 import SalesPage from "../pages/SalesPage";
 import CustomerLedgerPage from "../pages/CustomerLedgerPage";
 import SalesReportPage from "../pages/SalesReportPage";
@@ -22,7 +30,15 @@ const AppRoutes = () => {
         <Route element={<DashboardLayout />}>
           <Route path="/" element={<Dashboard />} />
           <Route path="/inventory" element={<ItemsPage />} />
+          <Route path="/inventory/categories" element={<CategoriesPage />} />
+          <Route path="/inventory/locations" element={<LocationsPage />} />
+          <Route path="/inventory/transfers" element={<TransfersPage />} />
+          <Route path="/inventory/stocktakes" element={<StocktakesPage />} />
+          <Route path="/inventory/labels" element={<LabelPrintPage />} />
+          <Route path="/inventory/:id" element={<ItemDetailPage />} />
           <Route path="/customers" element={<CustomersPage />} />
+          <Route path="/suppliers" element={<SuppliersPage />} />
+          <Route path="/purchases" element={<PurchasesPage />} />
           <Route path="/sales" element={<SalesPage />} />
           <Route path="/customers/ledger" element={<CustomerLedgerPage />} />
           <Route path="/reports/sales" element={<SalesReportPage />} />
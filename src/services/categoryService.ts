@@ -0,0 +1,59 @@
+import api from "../api/axios";
+import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import type { Category } from "../types/category.types";
+
+export interface CategoryPayload {
+  name: string;
+  description?: string;
+}
+
+export interface CategoryListResponse {
+  data: Category[];
+  meta: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface CategoryListQuery {
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export const categoryService = {
+  async getCategories(query?: CategoryListQuery): Promise<CategoryListResponse> {
+    const response = await api.get<CategoryListResponse>(
+      API_ENDPOINTS.CATEGORIES.BASE,
+      { params: query }
+    );
+    return response.data;
+  },
+
+  async createCategory(payload: CategoryPayload): Promise<Category> {
+    const response = await api.post<{ success: boolean; data: Category }>(
+      API_ENDPOINTS.CATEGORIES.BASE,
+      payload
+    );
+    return response.data.data;
+  },
+
+  async updateCategory(
+    id: string,
+    payload: CategoryPayload
+  ): Promise<Category> {
+    const response = await api.put<{ success: boolean; data: Category }>(
+      API_ENDPOINTS.CATEGORIES.GET_BY_ID(id),
+      payload
+    );
+    return response.data.data;
+  },
+
+  async deleteCategory(id: string): Promise<void> {
+    await api.delete<{ success: boolean; message?: string }>(
+      API_ENDPOINTS.CATEGORIES.GET_BY_ID(id)
+    );
+  },
+};
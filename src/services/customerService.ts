@@ -1,6 +1,8 @@
 import api from "../api/axios";
 import { API_ENDPOINTS } from "../constants/apiEndpoints";
 import type { Customer } from "../types/customer.types";
+import { fetchAllPages } from "../utils/pagination";
+import type { SortDirection } from "../utils/sorting";
 
 export interface CustomerPayload {
   name: string;
@@ -18,8 +20,14 @@ export interface CustomerListResponse {
   };
 }
 
+export type CustomerSortField = "name" | "mobile";
+
 export interface CustomerListQuery {
   search?: string;
+  // Archived customers are left out unless asked for
+  archived?: "only" | "include";
+  sortBy?: CustomerSortField;
+  sortDir?: SortDirection;
   page?: number;
   pageSize?: number;
 }
@@ -33,6 +41,14 @@ export const customerService = {
     return response.data;
   },
 
+  async getAllCustomers(
+    query?: Omit<CustomerListQuery, "page" | "pageSize">
+  ): Promise<Customer[]> {
+    return fetchAllPages((page, pageSize) =>
+      this.getCustomers({ ...query, page, pageSize })
+    );
+  },
+
   async getCustomerById(id: string): Promise<Customer> {
     const response = await api.get<{ success: boolean; data: Customer }>(
       API_ENDPOINTS.CUSTOMERS.GET_BY_ID(id)
@@ -59,10 +75,19 @@ export const customerService = {
     return response.data.data;
   },
 
-  async deleteCustomer(id: string): Promise<void> {
-    await api.delete<{ success: boolean; message?: string }>(
-      API_ENDPOINTS.CUSTOMERS.GET_BY_ID(id)
+  // Customers are archived rather than deleted so their sales keep resolving
+  async archiveCustomer(id: string): Promise<Customer> {
+    const response = await api.post<{ success: boolean; data: Customer }>(
+      API_ENDPOINTS.CUSTOMERS.ARCHIVE(id)
     );
+    return response.data.data;
+  },
+
+  async restoreCustomer(id: string): Promise<Customer> {
+    const response = await api.post<{ success: boolean; data: Customer }>(
+      API_ENDPOINTS.CUSTOMERS.RESTORE(id)
+    );
+    return response.data.data;
   },
 };
 
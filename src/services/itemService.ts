@@ -1,12 +1,56 @@
+import { AxiosError } from "axios";
 import api from "../api/axios";
 import { API_ENDPOINTS } from "../constants/apiEndpoints";
-import type { Item } from "../types/item.types";
+import type {
+  Item,
+  ItemKind,
+  ItemOption,
+  ItemVariant,
+  UnitOfMeasure,
+} from "../types/item.types";
+import { fetchAllPages } from "../utils/pagination";
+import type { SortDirection } from "../utils/sorting";
+
+export interface ItemComponentPayload {
+  item: string; // Item ID
+  quantity: number;
+}
+
+// Variant quantities are opening stock like the item's own and are only sent
+// when creating
+export type ItemVariantPayload = Omit<ItemVariant, "quantity"> & {
+  quantity?: number;
+};
 
 export interface ItemPayload {
   name: string;
+  sku?: string;
+  barcode?: string;
   description?: string;
-  quantity: number;
+  category?: string;
+  tags?: string[];
+  preferredSupplier?: string;
+  unit?: UnitOfMeasure;
+  // Opening stock, sent only when creating. Stock on existing items changes
+  // only through stock movements.
+  quantity?: number;
+  // Where the opening stock of a new item is placed; defaults on the backend
+  location?: string;
   price: number;
+  costPrice?: number;
+  taxRate?: number;
+  priceIncludesTax?: boolean;
+  reorderLevel?: number;
+  reorderQuantity?: number;
+  options?: ItemOption[];
+  // Variants with an _id are updated, the rest are created
+  variants?: ItemVariantPayload[];
+  trackLots?: boolean;
+  // Opening lot for the initial stock of a new lot-tracked item
+  lotNumber?: string;
+  expiryDate?: string;
+  kind?: ItemKind;
+  components?: ItemComponentPayload[];
 }
 
 export interface ItemListResponse {
@@ -19,8 +63,25 @@ export interface ItemListResponse {
   };
 }
 
+export type ItemSortField = "name" | "sku" | "quantity" | "price";
+
+// low: at or below the reorder level but not out; out: nothing left
+export type ItemStockStatus = "in_stock" | "low" | "out";
+
 export interface ItemListQuery {
   search?: string;
+  category?: string;
+  // Archived items are left out unless asked for
+  archived?: "only" | "include";
+  priceMin?: number;
+  priceMax?: number;
+  stockStatus?: ItemStockStatus;
+  // Which timestamp dateFrom/dateTo apply to, createdAt when omitted
+  dateField?: "createdAt" | "updatedAt";
+  dateFrom?: string;
+  dateTo?: string;
+  sortBy?: ItemSortField;
+  sortDir?: SortDirection;
   page?: number;
   pageSize?: number;
 }
@@ -33,6 +94,15 @@ export const itemService = {
     return response.data;
   },
 
+  // Pages through the whole catalogue for bulk tools that need every item
+  async getAllItems(
+    query?: Omit<ItemListQuery, "page" | "pageSize">
+  ): Promise<Item[]> {
+    return fetchAllPages((page, pageSize) =>
+      this.getItems({ ...query, page, pageSize })
+    );
+  },
+
   async getItemById(id: string): Promise<Item> {
     const response = await api.get<{ success: boolean; data: Item }>(
       API_ENDPOINTS.ITEMS.GET_BY_ID(id)
@@ -40,6 +110,21 @@ export const itemService = {
     return response.data.data;
   },
 
+  // Resolves an exact SKU or barcode match; null when no item carries the code
+  async lookupItem(code: string): Promise<Item | null> {
+    try {
+      const response = await api.get<{ success: boolean; data: Item }>(
+        API_ENDPOINTS.ITEMS.LOOKUP(code)
+      );
+      return response.data.data;
+    } catch (err) {
+      if (err instanceof AxiosError && err.response?.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  },
+
   async createItem(payload: ItemPayload): Promise<Item> {
     const response = await api.post<{ success: boolean; data: Item }>(
       API_ENDPOINTS.ITEMS.BASE,
@@ -56,10 +141,19 @@ export const itemService = {
     return response.data.data;
   },
 
-  async deleteItem(id: string): Promise<void> {
-    await api.delete<{ success: boolean; message?: string }>(
-      API_ENDPOINTS.ITEMS.GET_BY_ID(id)
+  // Items are archived rather than deleted so past sales keep their names
+  async archiveItem(id: string): Promise<Item> {
+    const response = await api.post<{ success: boolean; data: Item }>(
+      API_ENDPOINTS.ITEMS.ARCHIVE(id)
+    );
+    return response.data.data;
+  },
+
+  async restoreItem(id: string): Promise<Item> {
+    const response = await api.post<{ success: boolean; data: Item }>(
+      API_ENDPOINTS.ITEMS.RESTORE(id)
     );
+    return response.data.data;
   },
 };
 
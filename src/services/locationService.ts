@@ -0,0 +1,61 @@
+import api from "../api/axios";
+import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import type { Location } from "../types/location.types";
+
+export interface LocationPayload {
+  name: string;
+  code?: string;
+  address?: string;
+  isDefault?: boolean;
+}
+
+export interface LocationListResponse {
+  data: Location[];
+  meta: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface LocationListQuery {
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export const locationService = {
+  async getLocations(query?: LocationListQuery): Promise<LocationListResponse> {
+    const response = await api.get<LocationListResponse>(
+      API_ENDPOINTS.LOCATIONS.BASE,
+      { params: query }
+    );
+    return response.data;
+  },
+
+  async createLocation(payload: LocationPayload): Promise<Location> {
+    const response = await api.post<{ success: boolean; data: Location }>(
+      API_ENDPOINTS.LOCATIONS.BASE,
+      payload
+    );
+    return response.data.data;
+  },
+
+  async updateLocation(
+    id: string,
+    payload: LocationPayload
+  ): Promise<Location> {
+    const response = await api.put<{ success: boolean; data: Location }>(
+      API_ENDPOINTS.LOCATIONS.GET_BY_ID(id),
+      payload
+    );
+    return response.data.data;
+  },
+
+  async deleteLocation(id: string): Promise<void> {
+    await api.delete<{ success: boolean; message?: string }>(
+      API_ENDPOINTS.LOCATIONS.GET_BY_ID(id)
+    );
+  },
+};
@@ -0,0 +1,55 @@
+import api from "../api/axios";
+import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import type {
+  PriceChange,
+  PriceChangeStatus,
+  SchedulePriceChangePayload,
+} from "../types/priceChange.types";
+
+export interface PriceChangeListResponse {
+  data: PriceChange[];
+  meta: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface PriceChangeListQuery {
+  item?: string;
+  variant?: string;
+  status?: PriceChangeStatus;
+  page?: number;
+  pageSize?: number;
+}
+
+// Edits to an item's price are recorded by the backend as applied changes;
+// this service reads that history and manages future-dated changes
+export const priceChangeService = {
+  async getPriceChanges(
+    query?: PriceChangeListQuery
+  ): Promise<PriceChangeListResponse> {
+    const response = await api.get<PriceChangeListResponse>(
+      API_ENDPOINTS.PRICE_CHANGES.BASE,
+      { params: query }
+    );
+    return response.data;
+  },
+
+  async schedulePriceChange(
+    payload: SchedulePriceChangePayload
+  ): Promise<PriceChange> {
+    const response = await api.post<{ success: boolean; data: PriceChange }>(
+      API_ENDPOINTS.PRICE_CHANGES.BASE,
+      payload
+    );
+    return response.data.data;
+  },
+
+  async cancelPriceChange(id: string): Promise<void> {
+    await api.delete<{ success: boolean; message?: string }>(
+      API_ENDPOINTS.PRICE_CHANGES.GET_BY_ID(id)
+    );
+  },
+};
@@ -0,0 +1,82 @@
+import api from "../api/axios";
+import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import type {
+  PurchaseOrder,
+  PurchaseOrderPayload,
+  PurchaseOrderStatus,
+  GoodsReceiptPayload,
+} from "../types/purchaseOrder.types";
+
+export interface PurchaseOrderListResponse {
+  data: PurchaseOrder[];
+  meta: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface PurchaseOrderListQuery {
+  search?: string;
+  status?: PurchaseOrderStatus;
+  supplier?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export const purchaseOrderService = {
+  async getPurchaseOrders(
+    query?: PurchaseOrderListQuery
+  ): Promise<PurchaseOrderListResponse> {
+    const response = await api.get<PurchaseOrderListResponse>(
+      API_ENDPOINTS.PURCHASE_ORDERS.BASE,
+      { params: query }
+    );
+    return response.data;
+  },
+
+  async getPurchaseOrderById(id: string): Promise<PurchaseOrder> {
+    const response = await api.get<{ success: boolean; data: PurchaseOrder }>(
+      API_ENDPOINTS.PURCHASE_ORDERS.GET_BY_ID(id)
+    );
+    return response.data.data;
+  },
+
+  async createPurchaseOrder(
+    payload: PurchaseOrderPayload
+  ): Promise<PurchaseOrder> {
+    const response = await api.post<{ success: boolean; data: PurchaseOrder }>(
+      API_ENDPOINTS.PURCHASE_ORDERS.BASE,
+      payload
+    );
+    return response.data.data;
+  },
+
+  async markOrdered(id: string): Promise<PurchaseOrder> {
+    const response = await api.patch<{ success: boolean; data: PurchaseOrder }>(
+      API_ENDPOINTS.PURCHASE_ORDERS.STATUS(id),
+      { status: "ordered" }
+    );
+    return response.data.data;
+  },
+
+  // The backend adds the received quantities to Item.quantity and moves the
+  // order to partially_received or received
+  async receiveGoods(
+    id: string,
+    payload: GoodsReceiptPayload
+  ): Promise<PurchaseOrder> {
+    const response = await api.post<{ success: boolean; data: PurchaseOrder }>(
+      API_ENDPOINTS.PURCHASE_ORDERS.RECEIVE(id),
+      payload
+    );
+    return response.data.data;
+  },
+
+  async deletePurchaseOrder(id: string): Promise<void> {
+    await api.delete<{ success: boolean; message?: string }>(
+      API_ENDPOINTS.PURCHASE_ORDERS.GET_BY_ID(id)
+    );
+  },
+};
@@ -1,8 +1,12 @@
 import api from "../api/axios";
 import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import { triggerDownload } from "../utils/download";
 import type {
   SalesReportEntry,
   InventoryReportEntry,
+  InventoryCategoryGroup,
+  InventoryLocationSummary,
+  ExpiringLotEntry,
   SalesReportResponse,
   InventoryReportResponse,
   SalesReportEmailPayload,
@@ -23,6 +27,13 @@ export interface InventoryReportQuery {
   range?: string;
   customFrom?: string;
   customTo?: string;
+  belowReorderLevel?: boolean;
+  location?: string; // Limit quantities and values to one location
+}
+
+export interface ExpiringLotsQuery {
+  days: number; // Lots expiring within this many days, plus expired ones
+  location?: string;
 }
 
 export const reportService = {
@@ -62,6 +73,40 @@ export const reportService = {
     };
   },
 
+  async getInventoryReportByCategory(
+    query?: Omit<InventoryReportQuery, "page" | "pageSize">
+  ): Promise<InventoryCategoryGroup[]> {
+    const response = await api.get<{
+      success: boolean;
+      data: InventoryCategoryGroup[];
+    }>(`${API_ENDPOINTS.REPORTS.INVENTORY_BY_CATEGORY}`, {
+      params: query,
+    });
+    return response.data.data;
+  },
+
+  async getInventoryReportByLocation(
+    query?: Omit<InventoryReportQuery, "page" | "pageSize" | "location">
+  ): Promise<InventoryLocationSummary[]> {
+    const response = await api.get<{
+      success: boolean;
+      data: InventoryLocationSummary[];
+    }>(`${API_ENDPOINTS.REPORTS.INVENTORY_BY_LOCATION}`, {
+      params: query,
+    });
+    return response.data.data;
+  },
+
+  async getExpiringLots(query: ExpiringLotsQuery): Promise<ExpiringLotEntry[]> {
+    const response = await api.get<{
+      success: boolean;
+      data: ExpiringLotEntry[];
+    }>(`${API_ENDPOINTS.REPORTS.EXPIRING_LOTS}`, {
+      params: query,
+    });
+    return response.data.data;
+  },
+
   async downloadSalesReport(
     format: ReportFormat,
     query?: SalesReportQuery
@@ -92,16 +137,3 @@ export const reportService = {
     await api.post(`${API_ENDPOINTS.REPORTS.SALES}/email`, payload);
   },
 };
-
-function triggerDownload(data: Blob, filename: string): void {
-  const url = window.URL.createObjectURL(data);
-  const link = document.createElement("a");
-  link.href = url;
-  link.setAttribute("download", filename);
-  document.body.appendChild(link);
-  link.click();
-  link.parentNode?.removeChild(link);
-  window.URL.revokeObjectURL(url);
-}
-
-
@@ -1,6 +1,8 @@
 import api from "../api/axios";
 import { API_ENDPOINTS } from "../constants/apiEndpoints";
 import type { Sale, CreateSalePayload } from "../types/sale.types";
+import { fetchAllPages } from "../utils/pagination";
+import type { SortDirection } from "../utils/sorting";
 
 export interface SaleListResponse {
   data: Sale[];
@@ -12,7 +14,14 @@ export interface SaleListResponse {
   };
 }
 
+export type SaleSortField = "date" | "customerName" | "quantity" | "totalPrice";
+
 export interface SaleListQuery {
+  item?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  sortBy?: SaleSortField;
+  sortDir?: SortDirection;
   page?: number;
   pageSize?: number;
 }
@@ -33,6 +42,14 @@ export const saleService = {
     return response.data;
   },
 
+  async getAllSales(
+    query?: Omit<SaleListQuery, "page" | "pageSize">
+  ): Promise<Sale[]> {
+    return fetchAllPages((page, pageSize) =>
+      this.getSales({ ...query, page, pageSize })
+    );
+  },
+
   async getCustomerLedger(customerId: string): Promise<Sale[]> {
     const response = await api.get<{ success: boolean; data: Sale[] }>(
       API_ENDPOINTS.SALES.GET_BY_CUSTOMER(customerId)
@@ -0,0 +1,104 @@
+import api from "../api/axios";
+import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import type {
+  StockMovement,
+  StockMovementType,
+  CreateStockMovementPayload,
+} from "../types/stockMovement.types";
+
+export interface StockMovementListResponse {
+  data: StockMovement[];
+  meta: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface StockMovementListQuery {
+  item?: string;
+  variant?: string;
+  location?: string;
+  type?: StockMovementType;
+  page?: number;
+  pageSize?: number;
+}
+
+// Narrows a movement to one variant, location and/or lot of the item
+export interface StockTarget {
+  variant?: string;
+  location?: string;
+  lot?: string;
+  lotNumber?: string; // Receipts only: opens a new lot
+  expiryDate?: string;
+}
+
+export const stockMovementService = {
+  async getMovements(
+    query?: StockMovementListQuery
+  ): Promise<StockMovementListResponse> {
+    const response = await api.get<StockMovementListResponse>(
+      API_ENDPOINTS.STOCK_MOVEMENTS.BASE,
+      { params: query }
+    );
+    return response.data;
+  },
+
+  async createMovement(
+    payload: CreateStockMovementPayload
+  ): Promise<StockMovement> {
+    const response = await api.post<{ success: boolean; data: StockMovement }>(
+      API_ENDPOINTS.STOCK_MOVEMENTS.BASE,
+      payload
+    );
+    return response.data.data;
+  },
+
+  async receiveStock(
+    itemId: string,
+    quantity: number,
+    reason: string,
+    target: StockTarget = {}
+  ): Promise<StockMovement> {
+    return this.createMovement({
+      item: itemId,
+      ...target,
+      type: "receive",
+      quantity: Math.abs(quantity),
+      reason,
+    });
+  },
+
+  async writeOffStock(
+    itemId: string,
+    quantity: number,
+    reason: string,
+    target: StockTarget = {}
+  ): Promise<StockMovement> {
+    return this.createMovement({
+      item: itemId,
+      ...target,
+      type: "damage",
+      quantity: -Math.abs(quantity),
+      reason,
+    });
+  },
+
+  // A correction carries the counted stock; the backend works out the
+  // difference so sales posted since the count was taken are not undone
+  async correctStock(
+    itemId: string,
+    countedQuantity: number,
+    reason: string,
+    target: StockTarget = {}
+  ): Promise<StockMovement> {
+    return this.createMovement({
+      item: itemId,
+      ...target,
+      type: "correction",
+      countedQuantity,
+      reason,
+    });
+  },
+};
@@ -0,0 +1,76 @@
+import api from "../api/axios";
+import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import type {
+  StockTransfer,
+  StockTransferPayload,
+  StockTransferStatus,
+} from "../types/stockTransfer.types";
+
+export interface StockTransferListResponse {
+  data: StockTransfer[];
+  meta: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface StockTransferListQuery {
+  status?: StockTransferStatus;
+  location?: string; // Matches either the source or the destination
+  page?: number;
+  pageSize?: number;
+}
+
+export const stockTransferService = {
+  async getTransfers(
+    query?: StockTransferListQuery
+  ): Promise<StockTransferListResponse> {
+    const response = await api.get<StockTransferListResponse>(
+      API_ENDPOINTS.STOCK_TRANSFERS.BASE,
+      { params: query }
+    );
+    return response.data;
+  },
+
+  async getTransferById(id: string): Promise<StockTransfer> {
+    const response = await api.get<{ success: boolean; data: StockTransfer }>(
+      API_ENDPOINTS.STOCK_TRANSFERS.GET_BY_ID(id)
+    );
+    return response.data.data;
+  },
+
+  // Creating with status "sent" takes the stock out of the source right away
+  async createTransfer(payload: StockTransferPayload): Promise<StockTransfer> {
+    const response = await api.post<{ success: boolean; data: StockTransfer }>(
+      API_ENDPOINTS.STOCK_TRANSFERS.BASE,
+      payload
+    );
+    return response.data.data;
+  },
+
+  // The backend deducts every line from the source location
+  async sendTransfer(id: string): Promise<StockTransfer> {
+    const response = await api.patch<{ success: boolean; data: StockTransfer }>(
+      API_ENDPOINTS.STOCK_TRANSFERS.STATUS(id),
+      { status: "sent" }
+    );
+    return response.data.data;
+  },
+
+  // The backend adds every line to the destination location
+  async receiveTransfer(id: string): Promise<StockTransfer> {
+    const response = await api.patch<{ success: boolean; data: StockTransfer }>(
+      API_ENDPOINTS.STOCK_TRANSFERS.STATUS(id),
+      { status: "received" }
+    );
+    return response.data.data;
+  },
+
+  async deleteTransfer(id: string): Promise<void> {
+    await api.delete<{ success: boolean; message?: string }>(
+      API_ENDPOINTS.STOCK_TRANSFERS.GET_BY_ID(id)
+    );
+  },
+};
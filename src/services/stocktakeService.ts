@@ -0,0 +1,85 @@
+import api from "../api/axios";
+import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import type {
+  Stocktake,
+  StocktakeCountPayload,
+  StocktakePayload,
+  StocktakeStatus,
+} from "../types/stocktake.types";
+
+export interface StocktakeListResponse {
+  data: Stocktake[];
+  meta: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface StocktakeListQuery {
+  status?: StocktakeStatus;
+  location?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export const stocktakeService = {
+  async getStocktakes(query?: StocktakeListQuery): Promise<StocktakeListResponse> {
+    const response = await api.get<StocktakeListResponse>(
+      API_ENDPOINTS.STOCKTAKES.BASE,
+      { params: query }
+    );
+    return response.data;
+  },
+
+  async getStocktakeById(id: string): Promise<Stocktake> {
+    const response = await api.get<{ success: boolean; data: Stocktake }>(
+      API_ENDPOINTS.STOCKTAKES.GET_BY_ID(id)
+    );
+    return response.data.data;
+  },
+
+  async createStocktake(payload: StocktakePayload): Promise<Stocktake> {
+    const response = await api.post<{ success: boolean; data: Stocktake }>(
+      API_ENDPOINTS.STOCKTAKES.BASE,
+      payload
+    );
+    return response.data.data;
+  },
+
+  // Only the lines sent are touched, so a count can be saved in parts
+  async saveCounts(id: string, counts: StocktakeCountPayload[]): Promise<Stocktake> {
+    const response = await api.patch<{ success: boolean; data: Stocktake }>(
+      API_ENDPOINTS.STOCKTAKES.COUNTS(id),
+      { lines: counts }
+    );
+    return response.data.data;
+  },
+
+  async finishCounting(id: string): Promise<Stocktake> {
+    return this.setStatus(id, "review");
+  },
+
+  async reopenCounting(id: string): Promise<Stocktake> {
+    return this.setStatus(id, "counting");
+  },
+
+  // The backend posts a correction movement for the variance of every counted
+  // line; uncounted lines leave stock unchanged
+  async approveStocktake(id: string): Promise<Stocktake> {
+    return this.setStatus(id, "approved");
+  },
+
+  async cancelStocktake(id: string): Promise<Stocktake> {
+    return this.setStatus(id, "cancelled");
+  },
+
+  async setStatus(id: string, status: StocktakeStatus): Promise<Stocktake> {
+    const response = await api.patch<{ success: boolean; data: Stocktake }>(
+      API_ENDPOINTS.STOCKTAKES.STATUS(id),
+      { status }
+    );
+    return response.data.data;
+  },
+};
@@ -0,0 +1,69 @@
+import api from "../api/axios";
+import { API_ENDPOINTS } from "../constants/apiEndpoints";
+import type { Supplier } from "../types/supplier.types";
+
+export interface SupplierPayload {
+  name: string;
+  contactPerson?: string;
+  mobile: string;
+  email?: string;
+  address: string;
+}
+
+export interface SupplierListResponse {
+  data: Supplier[];
+  meta: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface SupplierListQuery {
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export const supplierService = {
+  async getSuppliers(query?: SupplierListQuery): Promise<SupplierListResponse> {
+    const response = await api.get<SupplierListResponse>(
+      API_ENDPOINTS.SUPPLIERS.BASE,
+      { params: query }
+    );
+    return response.data;
+  },
+
+  async getSupplierById(id: string): Promise<Supplier> {
+    const response = await api.get<{ success: boolean; data: Supplier }>(
+      API_ENDPOINTS.SUPPLIERS.GET_BY_ID(id)
+    );
+    return response.data.data;
+  },
+
+  async createSupplier(payload: SupplierPayload): Promise<Supplier> {
+    const response = await api.post<{ success: boolean; data: Supplier }>(
+      API_ENDPOINTS.SUPPLIERS.BASE,
+      payload
+    );
+    return response.data.data;
+  },
+
+  async updateSupplier(
+    id: string,
+    payload: SupplierPayload
+  ): Promise<Supplier> {
+    const response = await api.put<{ success: boolean; data: Supplier }>(
+      API_ENDPOINTS.SUPPLIERS.GET_BY_ID(id),
+      payload
+    );
+    return response.data.data;
+  },
+
+  async deleteSupplier(id: string): Promise<void> {
+    await api.delete<{ success: boolean; message?: string }>(
+      API_ENDPOINTS.SUPPLIERS.GET_BY_ID(id)
+    );
+  },
+};
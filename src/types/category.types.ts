@@ -0,0 +1,7 @@
+export interface Category {
+  _id?: string;
+  name: string;
+  description?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
@@ -3,6 +3,8 @@ export interface Customer {
   name: string;
   address: string;
   mobile: string;
+  // Archived customers are hidden from pickers but still resolve in history
+  archivedAt?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -1,9 +1,85 @@
+import type { Category } from "./category.types";
+import type { Supplier } from "./supplier.types";
+import type { Location } from "./location.types";
+
+export type UnitOfMeasure = "pcs" | "kg" | "g" | "l" | "ml" | "m" | "box";
+
+// Bundles are sold as one item but are made up of other items
+export type ItemKind = "standard" | "bundle";
+
+// An option axis such as Size with values S, M, L
+export interface ItemOption {
+  name: string;
+  values: string[];
+}
+
+export interface ItemVariant {
+  _id?: string;
+  // One value per option axis, keyed by option name
+  options: Record<string, string>;
+  sku?: string;
+  quantity: number; // Across all locations
+  stockByLocation?: ItemLocationStock[];
+  price: number;
+  costPrice?: number;
+}
+
+export interface ItemLocationStock {
+  // Backend may return either the location id or a populated Location object
+  location: string | Location;
+  quantity: number;
+}
+
+// A batch of stock received together, consumed first-expiry-first-out
+export interface ItemLot {
+  _id?: string;
+  lotNumber: string;
+  quantity: number; // Remaining in this lot
+  expiryDate?: string;
+  receivedDate: string;
+  // Backend may return either the location id or a populated Location object
+  location?: string | Location;
+}
+
+// How much of one item goes into a single bundle
+export interface ItemComponent {
+  // Backend may return either the item id or a populated Item object
+  item: string | Item;
+  quantity: number; // In the component item's unit of measure
+}
+
 export interface Item {
   _id?: string;
   name: string;
+  sku?: string;
+  barcode?: string;
   description?: string;
-  quantity: number;
-  price: number;
+  // Backend may return either the category id or a populated Category object
+  category?: string | Category;
+  tags?: string[];
+  // Backend may return either the supplier id or a populated Supplier object
+  preferredSupplier?: string | Supplier;
+  unit?: UnitOfMeasure; // Defaults to "pcs" when absent
+  quantity: number; // Total across all locations
+  stockByLocation?: ItemLocationStock[];
+  price: number; // Per unit of measure
+  costPrice?: number;
+  taxRate?: number; // GST percentage, e.g. 18; no tax when absent
+  // When true the price already contains the tax; otherwise tax is added on top
+  priceIncludesTax?: boolean;
+  reorderLevel?: number;
+  reorderQuantity?: number;
+  // When variants exist, quantity is the total across all variants
+  options?: ItemOption[];
+  variants?: ItemVariant[];
+  // When lots are tracked, stock is received into and sold from lots
+  trackLots?: boolean;
+  lots?: ItemLot[]; // Lots with stock remaining
+  kind?: ItemKind; // Defaults to "standard" when absent
+  // Bundles hold no stock of their own; what can be sold comes from these
+  components?: ItemComponent[];
+  // Archived items are hidden from pickers but still resolve in history
+  archivedAt?: string;
   createdAt?: string;
   updatedAt?: string;
 }
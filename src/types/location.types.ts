@@ -0,0 +1,9 @@
+export interface Location {
+  _id?: string;
+  name: string;
+  code?: string; // Short label such as "WH" or "FLOOR"
+  address?: string;
+  isDefault?: boolean; // Receives stock and sales when no location is chosen
+  createdAt?: string;
+  updatedAt?: string;
+}
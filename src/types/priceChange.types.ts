@@ -0,0 +1,27 @@
+import type { Item } from "./item.types";
+
+// applied: in effect (or superseded), scheduled: waiting for its effective
+// date, cancelled: withdrawn before taking effect
+export type PriceChangeStatus = "applied" | "scheduled" | "cancelled";
+
+export interface PriceChange {
+  _id?: string;
+  // Backend may return either the item id or a populated Item object
+  item: string | Item;
+  variant?: string; // Variant ID when the price belongs to one variant
+  previousPrice?: number; // Absent for the opening price
+  price: number;
+  effectiveDate: string;
+  status: PriceChangeStatus;
+  reason?: string;
+  createdBy?: string; // Name of the user who made or scheduled the change
+  createdAt?: string;
+}
+
+export interface SchedulePriceChangePayload {
+  item: string;
+  variant?: string;
+  price: number;
+  effectiveDate: string;
+  reason?: string;
+}
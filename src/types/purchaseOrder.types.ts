@@ -0,0 +1,59 @@
+import type { Item } from "./item.types";
+import type { Supplier } from "./supplier.types";
+
+export type PurchaseOrderStatus =
+  | "draft"
+  | "ordered"
+  | "partially_received"
+  | "received";
+
+export interface PurchaseOrderLine {
+  _id?: string;
+  // Backend may return either the item id or a populated Item object
+  item: string | Item;
+  variant?: string; // ItemVariant id when the item has variants
+  quantity: number;
+  unitCost: number; // Expected cost per unit
+  receivedQuantity: number;
+}
+
+export interface PurchaseOrder {
+  _id?: string;
+  orderNumber?: string;
+  // Backend may return either the supplier id or a populated Supplier object
+  supplier: string | Supplier;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: string;
+  notes?: string;
+  totalCost?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface PurchaseOrderLinePayload {
+  item: string;
+  variant?: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrderPayload {
+  supplier: string;
+  lines: PurchaseOrderLinePayload[];
+  expectedDate?: string;
+  notes?: string;
+  status?: Extract<PurchaseOrderStatus, "draft" | "ordered">;
+}
+
+export interface GoodsReceiptPayload {
+  lines: {
+    line: string; // PurchaseOrderLine id
+    quantity: number;
+    // Required for items that track lots
+    lotNumber?: string;
+    expiryDate?: string;
+  }[];
+  date?: string;
+  location?: string; // Receiving location; defaults on the backend
+}
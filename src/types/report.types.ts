@@ -1,18 +1,63 @@
+import type { ItemComponent, ItemKind, UnitOfMeasure } from "./item.types";
+
 export interface SalesReportEntry {
   date: string;
   item: string;
+  unit?: UnitOfMeasure;
   quantity: number;
+  taxableValue?: number; // Absent on sales recorded before tax was tracked
+  taxAmount?: number;
+  taxRate?: number;
   totalPrice: number;
+  unitCost?: number;
   customer: string;
 }
 
 export interface InventoryReportEntry {
   name: string;
+  unit?: UnitOfMeasure;
   quantity: number;
   price: number;
+  costPrice?: number;
+  reorderLevel?: number;
+  reorderQuantity?: number;
   description?: string;
+  category?: string;
   soldQuantity?: number;
   soldValue?: number;
+  soldCost?: number;
+  kind?: ItemKind;
+  components?: ItemComponent[]; // Bundles only
+}
+
+export interface InventoryCategoryGroup {
+  category: string;
+  items: InventoryReportEntry[];
+  totalQuantity: number;
+  inventoryValue: number;
+  soldQuantity: number;
+  soldValue: number;
+  soldCost?: number;
+}
+
+export interface InventoryLocationSummary {
+  location: string;
+  itemCount: number;
+  totalQuantity: number;
+  inventoryValue: number;
+  belowReorderCount?: number;
+}
+
+export interface ExpiringLotEntry {
+  item: string;
+  sku?: string;
+  unit?: UnitOfMeasure;
+  lotNumber: string;
+  quantity: number;
+  expiryDate: string;
+  daysUntilExpiry: number; // Negative once the lot has expired
+  location?: string;
+  value?: number; // Remaining quantity at cost
 }
 
 export interface SalesReportMeta {
@@ -25,7 +70,11 @@ export interface SalesReportMeta {
 export interface SalesReportTotals {
   totalSales: number;
   totalRevenue: number;
+  totalTaxableValue?: number;
+  totalTax?: number;
   avgSale: number;
+  totalCost?: number;
+  grossProfit?: number;
 }
 
 export interface SalesReportResponse {
@@ -52,6 +101,7 @@ export interface InventoryReportTotals {
   totalSalesCount: number;
   totalSoldQuantity: number;
   totalSoldValue: number;
+  totalSoldCost?: number;
   maxSoldItemName: string;
   maxSoldQuantity: number;
 }
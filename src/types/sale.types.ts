@@ -1,13 +1,40 @@
 import type { Item } from "./item.types";
+import type { Location } from "./location.types";
+
+// How much of a sale was taken from one lot
+export interface SaleLotAllocation {
+  lot: string; // ItemLot ID
+  lotNumber?: string; // Snapshot of the lot number
+  quantity: number;
+}
+
+// Stock taken from one component when a bundle is sold
+export interface SaleComponentDeduction {
+  item: string; // Item ID of the component
+  itemName?: string; // Snapshot of the component name
+  quantity: number;
+}
 
 export interface Sale {
   _id?: string;
   // Backend may return either the item id or a populated Item object
   item: string | Item;
+  variant?: string; // Variant ID when the item has variants
+  variantLabel?: string; // Snapshot such as "M / Blue"
+  // Backend may return either the location id or a populated Location object
+  location?: string | Location;
+  lots?: SaleLotAllocation[]; // Only for items that track lots
+  components?: SaleComponentDeduction[]; // Only for bundles
   customer?: string; // Customer ID (optional)
   customerName?: string; // Snapshot name or \"Cash\"
   quantity: number;
+  // Tax snapshot; totalPrice is taxableValue plus taxAmount
+  taxRate?: number;
+  priceIncludesTax?: boolean;
+  taxableValue?: number;
+  taxAmount?: number;
   totalPrice: number;
+  unitCost?: number; // Item cost price at the time of sale
   date: string;
   createdAt?: string;
   updatedAt?: string;
@@ -15,9 +42,20 @@ export interface Sale {
 
 export interface CreateSalePayload {
   item: string;
+  variant?: string;
+  variantLabel?: string;
+  location?: string;
+  lots?: SaleLotAllocation[];
+  // Bundles deduct each component instead of stock of their own
+  components?: SaleComponentDeduction[];
   customer?: string;
   customerName?: string;
   quantity: number;
+  taxRate?: number;
+  priceIncludesTax?: boolean;
+  taxableValue?: number;
+  taxAmount?: number;
+  unitCost?: number;
   date?: string;
 }
 
@@ -0,0 +1,37 @@
+import type { Item } from "./item.types";
+
+// receive: goods in, damage: write-off, correction: manual recount,
+// sale: posted by the backend when a sale is recorded
+export type StockMovementType = "receive" | "damage" | "correction" | "sale";
+
+export interface StockMovement {
+  _id?: string;
+  // Backend may return either the item id or a populated Item object
+  item: string | Item;
+  variant?: string; // Variant ID for items with variants
+  location?: string; // Location ID the stock moved in or out of
+  lot?: string; // ItemLot ID for items that track lots
+  type: StockMovementType;
+  quantity: number; // Signed change applied to the item's stock
+  balanceAfter?: number;
+  reason: string;
+  createdBy?: string; // Name of the user who posted the movement
+  createdAt?: string;
+}
+
+export interface CreateStockMovementPayload {
+  item: string;
+  variant?: string;
+  location?: string;
+  lot?: string; // Existing lot for write-offs and corrections
+  // Receipts into a lot-tracked item open a new lot
+  lotNumber?: string;
+  expiryDate?: string;
+  type: StockMovementType;
+  // Signed change for receipts and write-offs. Corrections send
+  // countedQuantity instead, and the backend posts the difference from the
+  // stock it holds at that moment.
+  quantity?: number;
+  countedQuantity?: number;
+  reason: string;
+}
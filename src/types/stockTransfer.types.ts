@@ -0,0 +1,46 @@
+import type { Item } from "./item.types";
+import type { Location } from "./location.types";
+
+export type StockTransferStatus = "draft" | "sent" | "received";
+
+export interface StockTransferLine {
+  _id?: string;
+  // Backend may return either the item id or a populated Item object
+  item: string | Item;
+  variant?: string; // ItemVariant id when the item has variants
+  // The lot moved, for items that track lots; it keeps its expiry at the
+  // destination
+  lot?: string; // ItemLot id
+  lotNumber?: string; // Snapshot of the lot number
+  quantity: number;
+}
+
+export interface StockTransfer {
+  _id?: string;
+  transferNumber?: string;
+  // Backend may return either the location id or a populated Location object
+  fromLocation: string | Location;
+  toLocation: string | Location;
+  status: StockTransferStatus;
+  lines: StockTransferLine[];
+  notes?: string;
+  sentAt?: string;
+  receivedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface StockTransferLinePayload {
+  item: string;
+  variant?: string;
+  lot?: string; // Required for items that track lots
+  quantity: number;
+}
+
+export interface StockTransferPayload {
+  fromLocation: string;
+  toLocation: string;
+  lines: StockTransferLinePayload[];
+  notes?: string;
+  status?: Extract<StockTransferStatus, "draft" | "sent">;
+}
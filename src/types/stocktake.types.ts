@@ -0,0 +1,50 @@
+import type { Item } from "./item.types";
+import type { Location } from "./location.types";
+
+// counting: staff enter counts; review: counting is closed and variances are
+// checked; approved: corrections have been posted
+export type StocktakeStatus = "counting" | "review" | "approved" | "cancelled";
+
+export interface StocktakeLine {
+  _id?: string;
+  // Backend may return either the item id or a populated Item object
+  item: string | Item;
+  variant?: string; // ItemVariant id when the item has variants
+  variantLabel?: string; // Snapshot such as "M / Blue"
+  lot?: string; // ItemLot id; lot-tracked items are counted per lot
+  lotNumber?: string;
+  expectedQuantity: number; // Snapshot taken when the stocktake started
+  countedQuantity?: number; // Absent until the line has been counted
+  unitCost?: number; // Item cost price at the time of the snapshot
+}
+
+export interface Stocktake {
+  _id?: string;
+  stocktakeNumber?: string;
+  // Backend may return either the location id or a populated Location object
+  location: string | Location;
+  status: StocktakeStatus;
+  // Blind counts hide expected quantities while counting
+  blind: boolean;
+  lines: StocktakeLine[];
+  notes?: string;
+  createdBy?: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// The backend snapshots every item (or every item in the category) held at
+// the location
+export interface StocktakePayload {
+  location: string;
+  category?: string;
+  blind: boolean;
+  notes?: string;
+}
+
+export interface StocktakeCountPayload {
+  line: string; // StocktakeLine id
+  countedQuantity: number | null; // null clears a count
+}
@@ -0,0 +1,10 @@
+export interface Supplier {
+  _id?: string;
+  name: string;
+  contactPerson?: string;
+  mobile: string;
+  email?: string;
+  address: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
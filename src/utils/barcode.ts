@@ -0,0 +1,114 @@
+export type BarcodeSymbology = "code128" | "ean13";
+
+// Bar and space widths for Code 128 values 0-106; 106 is the stop pattern
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312",
+  "132212", "221213", "221312", "231212", "112232", "122132", "122231", "113222",
+  "123122", "123221", "223211", "221132", "221231", "213212", "223112", "312131",
+  "311222", "321122", "321221", "312212", "322112", "322211", "212123", "212321",
+  "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121",
+  "313121", "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111", "111224",
+  "111422", "121124", "121421", "141122", "141221", "112214", "112412", "122114",
+  "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112",
+  "421211", "212141", "214121", "412121", "111143", "111341", "131141", "114113",
+  "114311", "411113", "411311", "113141", "114131", "311141", "411131", "211412",
+  "211214", "211232", "2331112",
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_CODE_B = 100;
+const CODE128_STOP = 106;
+
+// Widths alternate bar, space, bar... starting with a bar
+const widthsToModules = (widths: string): string =>
+  [...widths]
+    .map((width, index) => (index % 2 === 0 ? "1" : "0").repeat(Number(width)))
+    .join("");
+
+export const isValidCode128 = (code: string): boolean =>
+  code.length > 0 && /^[\x20-\x7e]+$/.test(code);
+
+// Code set C packs digit pairs into one symbol, so a leading run of digits is
+// encoded in C and the rest in code set B
+const code128Values = (code: string): number[] => {
+  const leadingDigits = /^\d*/.exec(code)?.[0] ?? "";
+  const pairedLength =
+    leadingDigits.length >= 4 ? leadingDigits.length - (leadingDigits.length % 2) : 0;
+  if (pairedLength === 0) {
+    return [CODE128_START_B, ...[...code].map((char) => char.charCodeAt(0) - 32)];
+  }
+  const values = [CODE128_START_C];
+  for (let i = 0; i < pairedLength; i += 2) {
+    values.push(Number(code.slice(i, i + 2)));
+  }
+  const rest = code.slice(pairedLength);
+  if (rest) {
+    values.push(CODE128_CODE_B, ...[...rest].map((char) => char.charCodeAt(0) - 32));
+  }
+  return values;
+};
+
+export const encodeCode128 = (code: string): string => {
+  const values = code128Values(code);
+  const checksum =
+    values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+  return [...values, checksum, CODE128_STOP]
+    .map((value) => widthsToModules(CODE128_PATTERNS[value]))
+    .join("");
+};
+
+// Left-hand odd parity (L) patterns; R is their complement and G is R reversed
+const EAN_L = [
+  "0001101", "0011001", "0010011", "0111101", "0100011",
+  "0110001", "0101111", "0111011", "0110111", "0001011",
+];
+const EAN_R = EAN_L.map((pattern) =>
+  [...pattern].map((bit) => (bit === "1" ? "0" : "1")).join("")
+);
+const EAN_G = EAN_R.map((pattern) => [...pattern].reverse().join(""));
+
+// The first digit is not drawn; it picks the L/G parity of the next six
+const EAN_PARITY = [
+  "LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG",
+  "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL",
+];
+
+export const ean13CheckDigit = (first12: string): number => {
+  const sum = [...first12].reduce(
+    (total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3),
+    0
+  );
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string): boolean =>
+  /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+
+export const encodeEan13 = (code: string): string => {
+  const digits = [...code].map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits
+    .slice(1, 7)
+    .map((digit, index) => (parity[index] === "L" ? EAN_L : EAN_G)[digit])
+    .join("");
+  const right = digits
+    .slice(7)
+    .map((digit) => EAN_R[digit])
+    .join("");
+  return `101${left}01010${right}101`;
+};
+
+// Valid EAN-13 codes print as EAN-13; anything else printable uses Code 128
+export const pickSymbology = (code: string): BarcodeSymbology | undefined => {
+  if (isValidEan13(code)) return "ean13";
+  if (isValidCode128(code)) return "code128";
+  return undefined;
+};
+
+// Module string of 1s (bars) and 0s (spaces), without quiet zones
+export const encodeBarcode = (code: string, symbology: BarcodeSymbology): string =>
+  symbology === "ean13" ? encodeEan13(code) : encodeCode128(code);
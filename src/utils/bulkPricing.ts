@@ -0,0 +1,41 @@
+import type { Item } from "../types/item.types";
+import type { ItemPayload } from "../services/itemService";
+import { itemToPayload, variantToPayload } from "./itemPayload";
+
+export interface PriceAdjustment {
+  mode: "percent" | "amount";
+  // Signed: -10 with "percent" lowers prices by 10%
+  value: number;
+}
+
+export const adjustPrice = (price: number, adjustment: PriceAdjustment): number => {
+  const next =
+    adjustment.mode === "percent"
+      ? price * (1 + adjustment.value / 100)
+      : price + adjustment.value;
+  return Math.round(next * 100) / 100;
+};
+
+// Variants are repriced by the same adjustment as the item
+export const priceAdjustedPayload = (
+  item: Item,
+  adjustment: PriceAdjustment
+): ItemPayload => ({
+  ...itemToPayload(item),
+  price: adjustPrice(item.price, adjustment),
+  variants: item.variants?.map((variant) => ({
+    ...variantToPayload(variant),
+    price: adjustPrice(variant.price, adjustment),
+  })),
+});
+
+// Prices must stay above zero, like the item form requires
+export const priceAdjustmentError = (
+  item: Item,
+  adjustment: PriceAdjustment
+): string | undefined => {
+  const prices = [item.price, ...(item.variants ?? []).map((v) => v.price)];
+  return prices.some((price) => adjustPrice(price, adjustment) <= 0)
+    ? "Price would drop to zero or below."
+    : undefined;
+};
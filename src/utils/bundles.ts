@@ -0,0 +1,113 @@
+import type { Item, ItemComponent } from "../types/item.types";
+import type { ItemComponentPayload } from "../services/itemService";
+import type { SaleComponentDeduction } from "../types/sale.types";
+import { quantityAtLocation } from "./stock";
+import { hasValidPrecision, roundQuantity } from "./units";
+
+export const isBundle = (item: Pick<Item, "kind">): boolean =>
+  item.kind === "bundle";
+
+export const componentItemId = (component: ItemComponent): string | undefined =>
+  typeof component.item === "string" ? component.item : component.item._id;
+
+// Components arrive either populated or as ids to look up in loaded items
+export const resolveComponentItem = (
+  component: ItemComponent,
+  items: Item[]
+): Item | undefined =>
+  typeof component.item === "string"
+    ? items.find((item) => item._id === component.item)
+    : component.item;
+
+// Whole bundles the component stock can make up. A component that cannot be
+// found counts as out of stock.
+export const bundleAvailability = (
+  bundle: Pick<Item, "components">,
+  items: Item[],
+  locationId?: string
+): number => {
+  const components = bundle.components ?? [];
+  if (components.length === 0) return 0;
+  return Math.min(
+    ...components.map((component) => {
+      const item = resolveComponentItem(component, items);
+      if (!item || component.quantity <= 0) return 0;
+      // The small epsilon keeps 1.5 / 0.5 from flooring to 2
+      return Math.floor(
+        quantityAtLocation(item, locationId) / component.quantity + 1e-9
+      );
+    })
+  );
+};
+
+// Stock each component gives up when `quantity` bundles are sold
+export const bundleDeductions = (
+  bundle: Item,
+  quantity: number,
+  items: Item[]
+): SaleComponentDeduction[] =>
+  (bundle.components ?? []).flatMap((component) => {
+    const id = componentItemId(component);
+    if (!id) return [];
+    const item = resolveComponentItem(component, items);
+    return [
+      {
+        item: id,
+        itemName: item?.name,
+        quantity: roundQuantity(component.quantity * quantity, item?.unit),
+      },
+    ];
+  });
+
+// Cost of one bundle from the cost prices of its components; unknown when
+// any component's cost is
+export const bundleUnitCost = (
+  bundle: Item,
+  items: Item[]
+): number | undefined => {
+  let total = 0;
+  for (const component of bundle.components ?? []) {
+    const costPrice = resolveComponentItem(component, items)?.costPrice;
+    if (costPrice === undefined) return undefined;
+    total += costPrice * component.quantity;
+  }
+  return total;
+};
+
+// Only plain stocked items can be components: variants and lots would need a
+// choice at sale time, and bundles inside bundles are not supported
+export const canBeComponent = (item: Item): boolean =>
+  !isBundle(item) &&
+  !item.trackLots &&
+  (item.variants?.length ?? 0) === 0 &&
+  !item.archivedAt;
+
+export const toComponentPayload = (
+  components: ItemComponent[]
+): ItemComponentPayload[] =>
+  components.flatMap((component) => {
+    const id = componentItemId(component);
+    return id ? [{ item: id, quantity: component.quantity }] : [];
+  });
+
+export const validateBundleComponents = (
+  components: ItemComponent[],
+  items: Item[],
+  bundleId?: string
+): string | undefined => {
+  if (components.length === 0) return "Add at least one component to the bundle.";
+  const seen = new Set<string>();
+  for (const component of components) {
+    const id = componentItemId(component);
+    if (!id) return "Select an item for every component.";
+    if (id === bundleId) return "A bundle cannot contain itself.";
+    if (seen.has(id)) return "Each item can only be added to a bundle once.";
+    seen.add(id);
+    if (component.quantity <= 0)
+      return "Component quantities must be greater than 0.";
+    const item = resolveComponentItem(component, items);
+    if (item && !hasValidPrecision(component.quantity, item.unit))
+      return `The quantity of ${item.name} has more decimal places than its unit allows.`;
+  }
+  return undefined;
+};
@@ -0,0 +1,60 @@
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and
+// doubled quotes. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+// Maps each data row to an object keyed by the (trimmed, lower-cased) header.
+export const csvToRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const keys = header.map((key) => key.trim().toLowerCase());
+  return rows.map((row) =>
+    Object.fromEntries(keys.map((key, i) => [key, (row[i] ?? "").trim()]))
+  );
+};
+
+const escapeCsvValue = (value: string | number | undefined): string => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (
+  header: string[],
+  rows: (string | number | undefined)[][]
+): string =>
+  [header, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
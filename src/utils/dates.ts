@@ -0,0 +1,15 @@
+// Date-only values such as "2024-03-01" are read as local dates; new Date()
+// would treat them as UTC midnight and shift them a day west of Greenwich
+export const parseLocalDate = (value: string): Date => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : new Date(value);
+};
+
+// "YYYY-MM-DD" for a date input, in local time. toISOString() would give the
+// UTC date, which east of Greenwich is still yesterday shortly after midnight.
+export const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
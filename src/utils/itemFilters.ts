@@ -0,0 +1,99 @@
+import type {
+  ItemListQuery,
+  ItemStockStatus,
+} from "../services/itemService";
+
+export type ItemFilters = Pick<
+  ItemListQuery,
+  "priceMin" | "priceMax" | "stockStatus" | "dateField" | "dateFrom" | "dateTo"
+>;
+
+// The filter panel edits text inputs, so empty means "not set"
+export interface ItemFilterDraft {
+  priceMin: string;
+  priceMax: string;
+  stockStatus: ItemStockStatus | "";
+  dateField: NonNullable<ItemListQuery["dateField"]>;
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const STOCK_STATUS_LABELS: Record<ItemStockStatus, string> = {
+  in_stock: "In stock",
+  low: "Low stock",
+  out: "Out of stock",
+};
+
+const DATE_FIELD_LABELS: Record<ItemFilterDraft["dateField"], string> = {
+  createdAt: "Created",
+  updatedAt: "Updated",
+};
+
+export const toItemFilterDraft = (filters: ItemFilters): ItemFilterDraft => ({
+  priceMin: filters.priceMin?.toString() ?? "",
+  priceMax: filters.priceMax?.toString() ?? "",
+  stockStatus: filters.stockStatus ?? "",
+  dateField: filters.dateField ?? "createdAt",
+  dateFrom: filters.dateFrom ?? "",
+  dateTo: filters.dateTo ?? "",
+});
+
+// Drops the date field once neither end of the range is set
+const normalize = (filters: ItemFilters): ItemFilters =>
+  filters.dateFrom || filters.dateTo
+    ? filters
+    : { ...filters, dateField: undefined };
+
+export const parseItemFilterDraft = (
+  draft: ItemFilterDraft
+): { filters?: ItemFilters; error?: string } => {
+  const priceMin = draft.priceMin.trim() === "" ? undefined : Number(draft.priceMin);
+  const priceMax = draft.priceMax.trim() === "" ? undefined : Number(draft.priceMax);
+  if (
+    (priceMin !== undefined && (Number.isNaN(priceMin) || priceMin < 0)) ||
+    (priceMax !== undefined && (Number.isNaN(priceMax) || priceMax < 0))
+  )
+    return { error: "Prices must be zero or more." };
+  if (priceMin !== undefined && priceMax !== undefined && priceMin > priceMax)
+    return { error: "Minimum price cannot be above the maximum." };
+  if (draft.dateFrom && draft.dateTo && draft.dateFrom > draft.dateTo)
+    return { error: "The start date cannot be after the end date." };
+  return {
+    filters: normalize({
+      priceMin,
+      priceMax,
+      stockStatus: draft.stockStatus || undefined,
+      dateField: draft.dateField,
+      dateFrom: draft.dateFrom || undefined,
+      dateTo: draft.dateTo || undefined,
+    }),
+  };
+};
+
+export type ItemFilterKey = "priceMin" | "priceMax" | "stockStatus" | "dateFrom" | "dateTo";
+
+export interface ItemFilterChip {
+  key: ItemFilterKey;
+  label: string;
+}
+
+export const itemFilterChips = (filters: ItemFilters): ItemFilterChip[] => {
+  const chips: ItemFilterChip[] = [];
+  const dateLabel = DATE_FIELD_LABELS[filters.dateField ?? "createdAt"];
+  if (filters.priceMin !== undefined)
+    chips.push({ key: "priceMin", label: `Price ≥ ₹ ${filters.priceMin}` });
+  if (filters.priceMax !== undefined)
+    chips.push({ key: "priceMax", label: `Price ≤ ₹ ${filters.priceMax}` });
+  if (filters.stockStatus)
+    chips.push({ key: "stockStatus", label: STOCK_STATUS_LABELS[filters.stockStatus] });
+  if (filters.dateFrom)
+    chips.push({ key: "dateFrom", label: `${dateLabel} from ${filters.dateFrom}` });
+  if (filters.dateTo)
+    chips.push({ key: "dateTo", label: `${dateLabel} until ${filters.dateTo}` });
+  return chips;
+};
+
+export const removeItemFilter = (
+  filters: ItemFilters,
+  key: ItemFilterKey
+): ItemFilters => normalize({ ...filters, [key]: undefined });
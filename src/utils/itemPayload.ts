@@ -0,0 +1,40 @@
+import type { Item, ItemVariant } from "../types/item.types";
+import type { ItemPayload, ItemVariantPayload } from "../services/itemService";
+import { toComponentPayload } from "./bundles";
+
+const referenceId = (value?: string | { _id?: string }): string | undefined =>
+  typeof value === "string" ? value : value?._id;
+
+// Everything about a saved variant except its stock
+export const variantToPayload = (variant: ItemVariant): ItemVariantPayload => ({
+  _id: variant._id,
+  options: variant.options,
+  sku: variant.sku,
+  price: variant.price,
+  costPrice: variant.costPrice,
+});
+
+// Item updates replace the whole record, so edits that touch one field send
+// the rest of the item back unchanged. Stock is left out: it only changes
+// through stock movements.
+export const itemToPayload = (item: Item): ItemPayload => ({
+  name: item.name,
+  sku: item.sku,
+  barcode: item.barcode,
+  description: item.description,
+  category: referenceId(item.category),
+  tags: item.tags,
+  preferredSupplier: referenceId(item.preferredSupplier),
+  unit: item.unit,
+  price: item.price,
+  costPrice: item.costPrice,
+  taxRate: item.taxRate,
+  priceIncludesTax: item.priceIncludesTax,
+  reorderLevel: item.reorderLevel,
+  reorderQuantity: item.reorderQuantity,
+  options: item.options,
+  variants: item.variants?.map(variantToPayload),
+  trackLots: item.trackLots,
+  kind: item.kind,
+  components: item.components && toComponentPayload(item.components),
+});
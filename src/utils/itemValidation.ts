@@ -0,0 +1,90 @@
+import type { ItemVariant, UnitOfMeasure } from "../types/item.types";
+import { hasValidPrecision, unitPrecision } from "./units";
+
+export interface ItemFieldValues {
+  name: string;
+  sku: string;
+  barcode: string;
+  description: string;
+  unit?: UnitOfMeasure;
+  quantity: number;
+  price: number;
+  costPrice?: number; // Unknown when not recorded
+  taxRate?: number;
+  reorderLevel: number;
+  reorderQuantity: number;
+}
+
+export type ItemFieldErrors = Partial<Record<keyof ItemFieldValues, string>>;
+
+// Shared by the item form and the CSV import so both apply the same rules.
+// Stock on existing items only changes through stock movements, so the
+// quantity rule only applies when creating.
+export const validateItemFields = (
+  values: ItemFieldValues,
+  isNew: boolean
+): ItemFieldErrors => {
+  const errors: ItemFieldErrors = {};
+  if (!values.name.trim()) errors.name = "Name is required.";
+  if (values.name.trim().length < 2)
+    errors.name = "Name must be at least 2 characters.";
+  if (!values.description.trim())
+    errors.description = "Description is required.";
+  else if (values.description.trim().length < 20)
+    errors.description = "Description must be at least 20 characters.";
+  if (isNew && values.quantity <= 0)
+    errors.quantity = "Quantity must be greater than 0.";
+  if (values.price <= 0) errors.price = "Price must be greater than 0.";
+  if ((values.costPrice ?? 0) < 0) errors.costPrice = "Cost price cannot be negative.";
+  if ((values.taxRate ?? 0) < 0 || (values.taxRate ?? 0) > 100)
+    errors.taxRate = "Tax rate must be between 0 and 100.";
+  if (values.reorderLevel < 0)
+    errors.reorderLevel = "Reorder level cannot be negative.";
+  if (values.reorderQuantity < 0)
+    errors.reorderQuantity = "Reorder quantity cannot be negative.";
+  const precisionMessage = (label: string) => {
+    const places = unitPrecision(values.unit);
+    return places === 0
+      ? `${label} must be a whole number for this unit.`
+      : `${label} can have at most ${places} decimal places for this unit.`;
+  };
+  if (
+    isNew &&
+    !errors.quantity &&
+    !hasValidPrecision(values.quantity, values.unit)
+  )
+    errors.quantity = precisionMessage("Quantity");
+  if (!errors.reorderLevel && !hasValidPrecision(values.reorderLevel, values.unit))
+    errors.reorderLevel = precisionMessage("Reorder level");
+  if (
+    !errors.reorderQuantity &&
+    !hasValidPrecision(values.reorderQuantity, values.unit)
+  )
+    errors.reorderQuantity = precisionMessage("Reorder quantity");
+  if (/\s/.test(values.sku.trim())) errors.sku = "SKU cannot contain spaces.";
+  if (/\s/.test(values.barcode.trim()))
+    errors.barcode = "Barcode cannot contain spaces.";
+  return errors;
+};
+
+export const validateVariants = (
+  variants: ItemVariant[],
+  unit: UnitOfMeasure | undefined,
+  parentSku: string
+): string | undefined => {
+  const skus = new Set<string>();
+  for (const variant of variants) {
+    const sku = variant.sku?.trim() ?? "";
+    if (variant.price <= 0) return "Every variant needs a price greater than 0.";
+    if ((variant.costPrice ?? 0) < 0)
+      return "Variant cost prices cannot be negative.";
+    if (variant.quantity < 0) return "Variant quantities cannot be negative.";
+    if (!hasValidPrecision(variant.quantity, unit))
+      return "A variant quantity has more decimal places than the unit allows.";
+    if (/\s/.test(sku)) return "Variant SKUs cannot contain spaces.";
+    if (sku && (skus.has(sku) || sku === parentSku.trim()))
+      return `SKU "${sku}" is used more than once.`;
+    if (sku) skus.add(sku);
+  }
+  return undefined;
+};
@@ -0,0 +1,159 @@
+import type { Item } from "../types/item.types";
+import { computeTax } from "./tax";
+
+// All measurements are in millimetres, as printed on label sheet packaging
+export interface LabelLayout {
+  id: string;
+  name: string;
+  pageWidthMm: number;
+  pageHeightMm: number;
+  columns: number;
+  rows: number;
+  labelWidthMm: number;
+  labelHeightMm: number;
+  marginTopMm: number;
+  marginLeftMm: number;
+  gapXMm: number; // Between columns
+  gapYMm: number; // Between rows
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: "a4-3x8",
+    name: "A4 · 3 × 8 (70 × 37 mm)",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 3,
+    rows: 8,
+    labelWidthMm: 70,
+    labelHeightMm: 37,
+    marginTopMm: 0.5,
+    marginLeftMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+  {
+    id: "a4-2x7",
+    name: "A4 · 2 × 7 (99.1 × 38.1 mm)",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 2,
+    rows: 7,
+    labelWidthMm: 99.1,
+    labelHeightMm: 38.1,
+    marginTopMm: 15.15,
+    marginLeftMm: 4.65,
+    gapXMm: 2.5,
+    gapYMm: 0,
+  },
+  {
+    id: "a4-4x10",
+    name: "A4 · 4 × 10 (48.5 × 25.4 mm)",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 4,
+    rows: 10,
+    labelWidthMm: 48.5,
+    labelHeightMm: 25.4,
+    marginTopMm: 21.5,
+    marginLeftMm: 8,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+  {
+    id: "a4-5x13",
+    name: "A4 · 5 × 13 (38.1 × 21.2 mm)",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 5,
+    rows: 13,
+    labelWidthMm: 38.1,
+    labelHeightMm: 21.2,
+    marginTopMm: 10.7,
+    marginLeftMm: 4.75,
+    gapXMm: 2.5,
+    gapYMm: 0,
+  },
+  {
+    id: "letter-3x10",
+    name: "Letter · 3 × 10 (66.7 × 25.4 mm)",
+    pageWidthMm: 215.9,
+    pageHeightMm: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidthMm: 66.7,
+    labelHeightMm: 25.4,
+    marginTopMm: 12.7,
+    marginLeftMm: 4.8,
+    gapXMm: 3.2,
+    gapYMm: 0,
+  },
+];
+
+export const labelsPerSheet = (layout: LabelLayout): number =>
+  layout.columns * layout.rows;
+
+export const layoutError = (layout: LabelLayout): string | undefined => {
+  if (layout.columns < 1 || layout.rows < 1)
+    return "A sheet needs at least one column and one row.";
+  if (!Number.isInteger(layout.columns) || !Number.isInteger(layout.rows))
+    return "Columns and rows must be whole numbers.";
+  if (layout.labelWidthMm <= 0 || layout.labelHeightMm <= 0)
+    return "Label width and height must be greater than 0.";
+  if (
+    [layout.marginTopMm, layout.marginLeftMm, layout.gapXMm, layout.gapYMm].some(
+      (value) => value < 0
+    )
+  )
+    return "Margins and gaps cannot be negative.";
+  const usedWidth =
+    layout.marginLeftMm +
+    layout.columns * layout.labelWidthMm +
+    (layout.columns - 1) * layout.gapXMm;
+  const usedHeight =
+    layout.marginTopMm +
+    layout.rows * layout.labelHeightMm +
+    (layout.rows - 1) * layout.gapYMm;
+  // Allow for rounding in manufacturers' published sizes
+  if (usedWidth > layout.pageWidthMm + 0.5)
+    return "The labels are wider than the page.";
+  if (usedHeight > layout.pageHeightMm + 0.5)
+    return "The labels are taller than the page.";
+  return undefined;
+};
+
+export interface LabelRequest {
+  item: Item;
+  copies: number;
+}
+
+// Fills sheets in reading order. `skip` leaves the first positions blank so a
+// partly used sheet can go back through the printer.
+export const buildLabelSheets = (
+  requests: LabelRequest[],
+  layout: LabelLayout,
+  skip = 0
+): (Item | null)[][] => {
+  const perSheet = labelsPerSheet(layout);
+  const printed = requests.flatMap((request) =>
+    Array<Item>(Math.max(request.copies, 0)).fill(request.item)
+  );
+  // Skipped slots alone are not worth a sheet
+  if (printed.length === 0) return [];
+  const labels: (Item | null)[] = [
+    ...Array<null>(Math.min(Math.max(skip, 0), perSheet - 1)).fill(null),
+    ...printed,
+  ];
+  const sheets: (Item | null)[][] = [];
+  for (let i = 0; i < labels.length; i += perSheet) {
+    sheets.push(labels.slice(i, i + perSheet));
+  }
+  return sheets;
+};
+
+// Shelf labels show what the customer pays, so exclusive prices get tax added
+export const labelPrice = (item: Item): number =>
+  computeTax(item.price, item.taxRate, item.priceIncludesTax).totalPrice;
+
+export const labelCode = (item: Item): string | undefined =>
+  item.barcode?.trim() || item.sku?.trim() || undefined;
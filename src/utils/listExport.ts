@@ -0,0 +1,38 @@
+import { toCsv } from "./csv";
+import { triggerDownload } from "./download";
+
+export type ExportFormat = "csv" | "json";
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => string | number | undefined;
+}
+
+// Downloads the given rows using the column definitions; JSON uses the column
+// keys so both formats carry the same fields.
+export const exportList = <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  baseName: string,
+  format: ExportFormat
+): void => {
+  const filename = `${baseName}-${new Date().toISOString().split("T")[0]}.${format}`;
+
+  if (format === "json") {
+    const records = rows.map((row) =>
+      Object.fromEntries(columns.map((column) => [column.key, column.value(row) ?? null]))
+    );
+    triggerDownload(
+      new Blob([JSON.stringify(records, null, 2)], { type: "application/json" }),
+      filename
+    );
+    return;
+  }
+
+  const csv = toCsv(
+    columns.map((column) => column.header),
+    rows.map((row) => columns.map((column) => column.value(row)))
+  );
+  triggerDownload(new Blob([csv], { type: "text/csv" }), filename);
+};
@@ -0,0 +1,67 @@
+import type { Item, ItemLot, UnitOfMeasure } from "../types/item.types";
+import type { SaleLotAllocation } from "../types/sale.types";
+import { parseLocalDate } from "./dates";
+import { getLocationId } from "./stock";
+import { roundQuantity } from "./units";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days from today until the expiry date; negative once expired
+export const daysUntilExpiry = (expiryDate: string, today = new Date()): number => {
+  const expiry = parseLocalDate(expiryDate);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const end = new Date(expiry.getFullYear(), expiry.getMonth(), expiry.getDate());
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+};
+
+export const isExpired = (lot: Pick<ItemLot, "expiryDate">): boolean =>
+  Boolean(lot.expiryDate) && daysUntilExpiry(lot.expiryDate as string) < 0;
+
+// Lots with stock at one location. Lots without a location follow the same
+// rule as quantityAtLocation and count wherever they are asked for.
+export const lotsAtLocation = (
+  item: Pick<Item, "lots">,
+  locationId?: string
+): ItemLot[] =>
+  (item.lots ?? []).filter(
+    (lot) =>
+      lot.quantity > 0 &&
+      (!locationId || !lot.location || getLocationId(lot.location) === locationId)
+  );
+
+// First expiry first out: earliest expiry first, lots without an expiry last,
+// and ties broken by the oldest receipt
+export const sortLotsByExpiry = (lots: ItemLot[]): ItemLot[] =>
+  [...lots].sort((a, b) => {
+    if (a.expiryDate !== b.expiryDate) {
+      if (!a.expiryDate) return 1;
+      if (!b.expiryDate) return -1;
+      return a.expiryDate < b.expiryDate ? -1 : 1;
+    }
+    return a.receivedDate < b.receivedDate ? -1 : a.receivedDate > b.receivedDate ? 1 : 0;
+  });
+
+// Takes the quantity from the sellable lots in FEFO order. Expired lots are
+// skipped; they leave stock through a write-off, not a sale.
+export const allocateLots = (
+  lots: ItemLot[],
+  quantity: number,
+  unit?: UnitOfMeasure
+): { allocations: SaleLotAllocation[]; shortfall: number } => {
+  const allocations: SaleLotAllocation[] = [];
+  let remaining = quantity;
+  for (const lot of sortLotsByExpiry(lots.filter((l) => !isExpired(l)))) {
+    if (remaining <= 0) break;
+    if (!lot._id) continue;
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push({ lot: lot._id, lotNumber: lot.lotNumber, quantity: taken });
+    remaining = roundQuantity(remaining - taken, unit);
+  }
+  return { allocations, shortfall: Math.max(0, remaining) };
+};
+
+export const formatExpiry = (expiryDate?: string): string => {
+  if (!expiryDate) return "No expiry";
+  const date = parseLocalDate(expiryDate);
+  return Number.isNaN(date.getTime()) ? expiryDate : date.toLocaleDateString();
+};
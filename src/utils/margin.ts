@@ -0,0 +1,6 @@
+// Margin is expressed against revenue (selling price), not against cost.
+export const marginPercent = (revenue: number, cost: number): number | null =>
+  revenue > 0 ? ((revenue - cost) / revenue) * 100 : null;
+
+export const formatMargin = (margin: number | null): string =>
+  margin === null ? "-" : `${margin.toFixed(1)}%`;
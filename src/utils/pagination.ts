@@ -0,0 +1,22 @@
+interface PagedResponse<T> {
+  data: T[];
+  meta: { totalPages: number };
+}
+
+// Walks every page of a list endpoint, for exports and bulk tools that need
+// the full result set rather than the page on screen.
+export const fetchAllPages = async <T>(
+  fetchPage: (page: number, pageSize: number) => Promise<PagedResponse<T>>,
+  pageSize = 200
+): Promise<T[]> => {
+  const results: T[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const response = await fetchPage(page, pageSize);
+    results.push(...response.data);
+    totalPages = response.meta.totalPages;
+    page++;
+  } while (page <= totalPages);
+  return results;
+};
@@ -0,0 +1,39 @@
+import type { Sale } from "../types/sale.types";
+import { parseLocalDate } from "./dates";
+
+export interface SeriesPoint {
+  label: string;
+  quantity: number;
+}
+
+// First day of the month `months - 1` months before today, for fetching the
+// sales that monthlyQuantities buckets
+export const seriesStartDate = (months: number, today = new Date()): string => {
+  const start = new Date(today.getFullYear(), today.getMonth() - (months - 1), 1);
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}-01`;
+};
+
+// Units sold per calendar month over the last `months` months, oldest first.
+// Months without sales are included as zero so the chart keeps its scale.
+export const monthlyQuantities = (
+  sales: Pick<Sale, "date" | "quantity">[],
+  months = 12,
+  today = new Date()
+): SeriesPoint[] => {
+  const buckets = Array.from({ length: months }, (_, index) => {
+    const month = new Date(today.getFullYear(), today.getMonth() - (months - 1) + index, 1);
+    return {
+      key: `${month.getFullYear()}-${month.getMonth()}`,
+      label: month.toLocaleDateString(undefined, { month: "short", year: "2-digit" }),
+      quantity: 0,
+    };
+  });
+  const byKey = new Map(buckets.map((bucket) => [bucket.key, bucket]));
+  for (const sale of sales) {
+    const date = parseLocalDate(sale.date);
+    if (Number.isNaN(date.getTime())) continue;
+    const bucket = byKey.get(`${date.getFullYear()}-${date.getMonth()}`);
+    if (bucket) bucket.quantity += sale.quantity;
+  }
+  return buckets.map(({ label, quantity }) => ({ label, quantity }));
+};
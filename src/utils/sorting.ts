@@ -0,0 +1,15 @@
+export type SortDirection = "asc" | "desc";
+
+export interface ListSort<F extends string> {
+  sortBy: F;
+  sortDir: SortDirection;
+}
+
+// Clicking the sorted column flips its direction; another column starts ascending
+export const toggleSort = <F extends string>(
+  current: ListSort<F> | undefined,
+  field: F
+): ListSort<F> =>
+  current?.sortBy === field
+    ? { sortBy: field, sortDir: current.sortDir === "asc" ? "desc" : "asc" }
+    : { sortBy: field, sortDir: "asc" };
@@ -0,0 +1,36 @@
+import type { ItemLocationStock } from "../types/item.types";
+import type { Location } from "../types/location.types";
+
+interface StockLevel {
+  quantity: number;
+  reorderLevel?: number;
+}
+
+// An item needs restocking once it falls to its reorder level. Items without
+// a reorder level are only flagged when they run out.
+export const isBelowReorderLevel = ({ quantity, reorderLevel }: StockLevel) =>
+  quantity <= (reorderLevel ?? 0);
+
+interface LocatedStock {
+  quantity: number;
+  stockByLocation?: ItemLocationStock[];
+}
+
+export const getLocationId = (location: string | Location): string | undefined =>
+  typeof location === "string" ? location : location._id;
+
+// Quantity held at one location. Items without a per-location breakdown are
+// treated as holding all their stock at whichever location is asked for.
+export const quantityAtLocation = (
+  item: LocatedStock,
+  locationId?: string
+): number => {
+  if (!locationId || !item.stockByLocation) return item.quantity;
+  return (
+    item.stockByLocation.find((entry) => getLocationId(entry.location) === locationId)
+      ?.quantity ?? 0
+  );
+};
+
+export const defaultLocationId = (locations: Location[]): string =>
+  (locations.find((location) => location.isDefault) ?? locations[0])?._id ?? "";
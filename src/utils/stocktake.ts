@@ -0,0 +1,44 @@
+import type { StocktakeLine } from "../types/stocktake.types";
+
+// Counted minus expected; undefined while the line is uncounted. Rounded to
+// the finest unit precision so kg and litre lines do not show float noise.
+export const lineVariance = (line: StocktakeLine): number | undefined =>
+  line.countedQuantity === undefined || line.countedQuantity === null
+    ? undefined
+    : Math.round((line.countedQuantity - line.expectedQuantity) * 1000) / 1000;
+
+export const lineValueImpact = (line: StocktakeLine): number => {
+  const variance = lineVariance(line);
+  return variance === undefined ? 0 : variance * (line.unitCost ?? 0);
+};
+
+export interface StocktakeSummary {
+  lineCount: number;
+  countedCount: number;
+  varianceCount: number;
+  gainValue: number; // Value of stock found beyond what was expected
+  lossValue: number; // Value of stock missing, as a positive number
+  netValue: number;
+}
+
+export const summarizeStocktake = (lines: StocktakeLine[]): StocktakeSummary => {
+  const summary: StocktakeSummary = {
+    lineCount: lines.length,
+    countedCount: 0,
+    varianceCount: 0,
+    gainValue: 0,
+    lossValue: 0,
+    netValue: 0,
+  };
+  for (const line of lines) {
+    const variance = lineVariance(line);
+    if (variance === undefined) continue;
+    summary.countedCount++;
+    if (variance !== 0) summary.varianceCount++;
+    const value = lineValueImpact(line);
+    if (value > 0) summary.gainValue += value;
+    else summary.lossValue -= value;
+    summary.netValue += value;
+  }
+  return summary;
+};
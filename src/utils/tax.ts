@@ -0,0 +1,45 @@
+import type { Item } from "../types/item.types";
+
+// GST slabs offered in the item form
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+export interface TaxBreakdown {
+  taxableValue: number;
+  taxAmount: number;
+  totalPrice: number;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Tax-inclusive amounts already contain the tax, so it is backed out of them;
+// exclusive amounts have it added on top
+export const computeTax = (
+  amount: number,
+  taxRate = 0,
+  priceIncludesTax = false
+): TaxBreakdown => {
+  if (priceIncludesTax) {
+    const totalPrice = roundMoney(amount);
+    const taxableValue = roundMoney(amount / (1 + taxRate / 100));
+    return {
+      taxableValue,
+      taxAmount: roundMoney(totalPrice - taxableValue),
+      totalPrice,
+    };
+  }
+  const taxableValue = roundMoney(amount);
+  const taxAmount = roundMoney((taxableValue * taxRate) / 100);
+  return { taxableValue, taxAmount, totalPrice: roundMoney(taxableValue + taxAmount) };
+};
+
+// Price before tax, which is what margins are worked out against
+export const netPrice = (
+  price: number,
+  item: Pick<Item, "taxRate" | "priceIncludesTax">
+): number =>
+  item.priceIncludesTax ? price / (1 + (item.taxRate ?? 0) / 100) : price;
+
+export const formatTaxRate = (
+  item: Pick<Item, "taxRate" | "priceIncludesTax">
+): string =>
+  `${item.priceIncludesTax ? "incl." : "+"} GST ${item.taxRate ?? 0}%`;
@@ -0,0 +1,43 @@
+import type { UnitOfMeasure } from "../types/item.types";
+
+interface UnitDefinition {
+  value: UnitOfMeasure;
+  label: string;
+  // Number of decimal places a quantity in this unit may carry
+  precision: number;
+}
+
+export const UNITS: UnitDefinition[] = [
+  { value: "pcs", label: "Pieces", precision: 0 },
+  { value: "box", label: "Boxes", precision: 0 },
+  { value: "kg", label: "Kilograms", precision: 3 },
+  { value: "g", label: "Grams", precision: 0 },
+  { value: "l", label: "Litres", precision: 3 },
+  { value: "ml", label: "Millilitres", precision: 0 },
+  { value: "m", label: "Metres", precision: 2 },
+];
+
+export const DEFAULT_UNIT: UnitOfMeasure = "pcs";
+
+export const unitPrecision = (unit?: UnitOfMeasure): number =>
+  UNITS.find((u) => u.value === (unit ?? DEFAULT_UNIT))?.precision ?? 0;
+
+// Value for the `step` attribute of quantity inputs
+export const quantityStep = (unit?: UnitOfMeasure): string => {
+  const precision = unitPrecision(unit);
+  return precision === 0 ? "1" : (1 / 10 ** precision).toFixed(precision);
+};
+
+// Rounds away floating point noise (0.1 + 0.2) to the unit's precision
+export const roundQuantity = (quantity: number, unit?: UnitOfMeasure): number => {
+  const factor = 10 ** unitPrecision(unit);
+  return Math.round(quantity * factor) / factor;
+};
+
+export const hasValidPrecision = (
+  quantity: number,
+  unit?: UnitOfMeasure
+): boolean => roundQuantity(quantity, unit) === quantity;
+
+export const formatQuantity = (quantity: number, unit?: UnitOfMeasure): string =>
+  `${roundQuantity(quantity, unit)} ${unit ?? DEFAULT_UNIT}`;
@@ -0,0 +1,104 @@
+import type { Item, ItemOption, ItemVariant } from "../types/item.types";
+
+export const variantLabel = (
+  variant: Pick<ItemVariant, "options">,
+  options: ItemOption[] = []
+): string => {
+  // Follow the item's option order so labels read "M / Blue", not "Blue / M"
+  const names = options.length
+    ? options.map((option) => option.name)
+    : Object.keys(variant.options);
+  return names
+    .map((name) => variant.options[name])
+    .filter(Boolean)
+    .join(" / ");
+};
+
+const variantKey = (
+  combination: Record<string, string>,
+  options: ItemOption[]
+): string => options.map((option) => combination[option.name] ?? "").join("\u0000");
+
+// Every combination of option values, e.g. Size x Colour. Rows that already
+// exist are kept so edits to SKU, price and stock survive regeneration. When
+// `existing` lists a variant more than once, the first entry wins.
+export const buildVariantMatrix = (
+  options: ItemOption[],
+  existing: ItemVariant[],
+  defaults: Pick<ItemVariant, "price" | "costPrice">
+): ItemVariant[] => {
+  const axes = options.filter((option) => option.name && option.values.length);
+  if (axes.length === 0) return [];
+
+  let combinations: Record<string, string>[] = [{}];
+  for (const axis of axes) {
+    combinations = combinations.flatMap((combination) =>
+      axis.values.map((value) => ({ ...combination, [axis.name]: value }))
+    );
+  }
+
+  const byKey = new Map<string, ItemVariant>();
+  const byValues = new Map<string, ItemVariant>();
+  for (const variant of existing) {
+    const key = variantKey(variant.options, axes);
+    const values = Object.values(variant.options).join("\u0000");
+    if (!byKey.has(key)) byKey.set(key, variant);
+    if (!byValues.has(values)) byValues.set(values, variant);
+  }
+
+  const used = new Set<ItemVariant>();
+  return combinations.map((combination) => {
+    // Renaming an axis changes the option name but not the values, so fall
+    // back to matching the values in axis order
+    const candidates = [
+      byKey.get(variantKey(combination, axes)),
+      byValues.get(axes.map((axis) => combination[axis.name]).join("\u0000")),
+    ];
+    const match = candidates.find((variant) => variant && !used.has(variant));
+    if (match) {
+      used.add(match);
+      return { ...match, options: combination };
+    }
+    return {
+      options: combination,
+      quantity: 0,
+      price: defaults.price,
+      costPrice: defaults.costPrice,
+    };
+  });
+};
+
+export const hasVariants = (item: Pick<Item, "variants">): boolean =>
+  (item.variants?.length ?? 0) > 0;
+
+export const findVariantByCode = (
+  item: Item,
+  code: string
+): ItemVariant | undefined => item.variants?.find((variant) => variant.sku === code);
+
+// Option values are edited as comma-separated text
+export interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+export const parseOptionDrafts = (drafts: OptionDraft[]): ItemOption[] =>
+  drafts
+    .map((draft) => ({
+      name: draft.name.trim(),
+      values: [
+        ...new Set(
+          draft.values
+            .split(",")
+            .map((value) => value.trim())
+            .filter(Boolean)
+        ),
+      ],
+    }))
+    .filter((option) => option.name && option.values.length);
+
+export const toOptionDrafts = (options: ItemOption[] = []): OptionDraft[] =>
+  options.map((option) => ({
+    name: option.name,
+    values: option.values.join(", "),
+  }));